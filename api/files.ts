@@ -0,0 +1,10 @@
+// File helpers shared by the service's on-disk state (job records, the OpenAI resource ledger).
+import { rename, writeFile } from "node:fs/promises";
+import { randomUUID } from "node:crypto";
+
+// Written next to the target and renamed over it, so a crash mid-write leaves the previous version
+export async function writeAtomic(path: string, content: string) {
+  const temp = `${path}.${randomUUID()}.tmp`;
+  await writeFile(temp, content);
+  await rename(temp, path);
+}
@@ -0,0 +1,53 @@
+// Small helpers around node:http: bounded body reading, multipart parsing via the WHATWG
+// Request/Response classes Node ships, JSON responses.
+import type { IncomingMessage, ServerResponse } from "node:http";
+
+// Request-level failures (bad input, unknown route); provider failures are ExtractionErrors
+export class HttpError extends Error {
+  name = "HttpError";
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Ten comparison PDFs of a few MB each fit comfortably
+export const MAX_BODY_BYTES = 100 * 1024 * 1024;
+
+export async function readBody(req: IncomingMessage, limit = MAX_BODY_BYTES): Promise<Buffer> {
+  const declared = Number(req.headers["content-length"]);
+  if (declared > limit) throw new HttpError(413, `Request body over ${limit} bytes`);
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > limit) throw new HttpError(413, `Request body over ${limit} bytes`);
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+export async function readForm(req: IncomingMessage): Promise<FormData> {
+  const type = req.headers["content-type"] ?? "";
+  if (!type.startsWith("multipart/form-data")) throw new HttpError(415, "Expected multipart/form-data");
+  const body = await readBody(req);
+  try {
+    return await new Response(body, { headers: { "content-type": type } }).formData();
+  } catch {
+    throw new HttpError(400, "Malformed multipart body");
+  }
+}
+
+export function formFile(form: FormData, name: string): File {
+  const value = form.get(name);
+  if (!(value instanceof File)) throw new HttpError(400, `Missing file field "${name}"`);
+  return value;
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "content-type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,246 @@
+// Job subsystem: extractions run in the background of the service instead of inside a request,
+// so callers (the browser after a reload, internal systems) poll GET /jobs/:id or get a webhook.
+// Jobs are written to JOBS_DIR as JSON after every change and reloaded on start; the PDFs
+// themselves are only held in memory, so jobs cut off by a restart are reported as failed.
+// Finished jobs hold policy and member data, so they are deleted after JOB_RETENTION_HOURS.
+import { mkdir, readFile, readdir, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { createHmac, randomUUID } from "node:crypto";
+import type { PayerPlan } from "@/constants/fields";
+import { buildComparisonMatrix } from "@/services/compare";
+import { extractDocument } from "@/services/extraction";
+import {
+  ComparisonFailedError,
+  ExtractionError,
+  deserializeError,
+  serializeError,
+  toExtractionError,
+} from "@/services/errors";
+import { modelFor, type ProviderId } from "@/services/providers";
+import { isFinished, type ExtractionJob, type JobKind } from "@/services/jobs";
+import { hashFile } from "@/lib/fileHash";
+import { writeAtomic } from "./files";
+
+// Misconfiguration stops the service from starting: NaN or 0 would leave every job queued
+function positiveEnv(name: string, fallback: number, { integer = false } = {}): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return fallback;
+  const value = Number(raw);
+  if (!(value > 0) || (integer && !Number.isInteger(value))) {
+    throw new Error(`${name} must be a positive ${integer ? "integer" : "number"}, got "${raw}"`);
+  }
+  return value;
+}
+
+const JOB_CONCURRENCY = positiveEnv("JOB_CONCURRENCY", 2, { integer: true });
+const WEBHOOK_ATTEMPTS = 3;
+const WEBHOOK_RETRY_DELAY_MS = 5000;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+// Signs webhook bodies (HMAC-SHA256) so receivers can tell them from forged calls
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET;
+const JOB_RETENTION_MS = positiveEnv("JOB_RETENTION_HOURS", 24) * 3_600_000;
+const PRUNE_INTERVAL_MS = 15 * 60_000;
+
+interface JobInput {
+  kind: JobKind;
+  documents: { file: File; payerPlan: PayerPlan }[];
+  baseline: number;
+  provider?: ProviderId;
+  webhookUrl?: string;
+}
+
+const jobs = new Map<string, ExtractionJob>();
+const queue: { job: ExtractionJob; input: JobInput }[] = [];
+let running = 0;
+let jobsDir = "";
+let apiKey = "";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Writes of one job are chained so parallel document updates cannot interleave on disk
+const writes = new Map<string, Promise<void>>();
+
+function persist(job: ExtractionJob): Promise<void> {
+  job.updatedAt = new Date().toISOString();
+  const snapshot = JSON.stringify(job);
+  const write = (writes.get(job.id) ?? Promise.resolve())
+    .then(() => writeAtomic(join(jobsDir, `${job.id}.json`), snapshot))
+    .catch((err) => console.error(`Could not save job ${job.id}:`, err));
+  writes.set(job.id, write);
+  write.finally(() => writes.get(job.id) === write && writes.delete(job.id));
+  return write;
+}
+
+// Drops finished jobs last changed before the retention period, from memory and from disk
+async function pruneJobs() {
+  const cutoff = Date.now() - JOB_RETENTION_MS;
+  for (const job of [...jobs.values()]) {
+    if (!isFinished(job) || Date.parse(job.updatedAt) > cutoff) continue;
+    jobs.delete(job.id);
+    await writes.get(job.id);
+    await rm(join(jobsDir, `${job.id}.json`), { force: true }).catch((err) =>
+      console.error(`Could not delete job ${job.id}:`, err)
+    );
+  }
+}
+
+export async function initJobs(options: { dir: string; apiKey: string }) {
+  jobsDir = options.dir;
+  apiKey = options.apiKey;
+  await mkdir(jobsDir, { recursive: true });
+  for (const name of await readdir(jobsDir)) {
+    // Left over from a write cut off by a crash
+    if (name.endsWith(".tmp")) await rm(join(jobsDir, name), { force: true });
+    if (!name.endsWith(".json")) continue;
+    let job: ExtractionJob;
+    try {
+      job = JSON.parse(await readFile(join(jobsDir, name), "utf8"));
+    } catch (err) {
+      console.error(`Skipping unreadable job file ${name}:`, err);
+      continue;
+    }
+    jobs.set(job.id, job);
+    if (!isFinished(job)) {
+      const error = serializeError(new ExtractionError("Interrupted by a restart of the extraction service"));
+      for (const doc of job.documents) {
+        if (doc.status !== "succeeded" && doc.status !== "failed") Object.assign(doc, { status: "failed", error });
+      }
+      Object.assign(job, { status: "failed", error });
+      await persist(job);
+      // Not awaited: retries must not hold up the start of the service
+      if (job.webhook && !job.webhook.deliveredAt) void deliverWebhook(job);
+    }
+  }
+  await pruneJobs();
+  setInterval(() => void pruneJobs(), PRUNE_INTERVAL_MS).unref();
+}
+
+export function getJob(id: string): ExtractionJob | undefined {
+  return jobs.get(id);
+}
+
+export async function createJob(input: JobInput): Promise<ExtractionJob> {
+  const now = new Date().toISOString();
+  const job: ExtractionJob = {
+    id: randomUUID(),
+    kind: input.kind,
+    status: "queued",
+    createdAt: now,
+    updatedAt: now,
+    baseline: input.baseline,
+    documents: await Promise.all(
+      input.documents.map(async ({ file, payerPlan }) => ({
+        name: file.name,
+        size: file.size,
+        sha256: await hashFile(file),
+        payerPlan,
+        model: modelFor(payerPlan, input.provider),
+        status: "queued" as const,
+        result: null,
+        error: null,
+      }))
+    ),
+    result: null,
+    error: null,
+    webhook: input.webhookUrl
+      ? { url: input.webhookUrl, attempts: 0, deliveredAt: null, lastError: null }
+      : null,
+  };
+  jobs.set(job.id, job);
+  await persist(job);
+  queue.push({ job, input });
+  drain();
+  return job;
+}
+
+function drain() {
+  while (running < JOB_CONCURRENCY && queue.length > 0) {
+    const next = queue.shift()!;
+    running++;
+    runJob(next.job, next.input)
+      .catch((err) => console.error(`Job ${next.job.id} crashed:`, err))
+      .finally(() => {
+        running--;
+        drain();
+      });
+  }
+}
+
+async function runJob(job: ExtractionJob, input: JobInput) {
+  job.status = "running";
+  await persist(job);
+
+  // Documents run in parallel; each result is saved as soon as it is in
+  await Promise.all(
+    input.documents.map(async ({ file, payerPlan }, i) => {
+      const doc = job.documents[i];
+      doc.status = "running";
+      await persist(job);
+      try {
+        doc.result = await extractDocument({ file, payerPlan, apiKey, provider: input.provider });
+        doc.status = "succeeded";
+      } catch (err) {
+        doc.error = serializeError(toExtractionError(err));
+        doc.status = "failed";
+      }
+      await persist(job);
+    })
+  );
+
+  const failed = job.documents.filter((doc) => doc.status === "failed");
+  if (failed.length > 0) {
+    job.status = "failed";
+    job.error =
+      job.kind === "extract"
+        ? failed[0].error
+        : serializeError(
+            new ComparisonFailedError(failed.map((doc) => ({ fileName: doc.name, error: deserializeError(doc.error!) })))
+          );
+  } else {
+    const results = job.documents.map((doc) => doc.result!);
+    job.result =
+      job.kind === "extract"
+        ? results[0]
+        : buildComparisonMatrix(
+            job.documents.map(({ name, payerPlan }) => ({ fileName: name, payerPlan })),
+            results,
+            job.baseline
+          );
+    job.status = "succeeded";
+  }
+  await persist(job);
+  if (job.webhook) await deliverWebhook(job);
+}
+
+// Best effort with a few retries; the outcome is recorded on the job for GET /jobs/:id. Only the
+// id and status are sent: the results stay behind GET /jobs/:id
+async function deliverWebhook(job: ExtractionJob) {
+  const webhook = job.webhook!;
+  const body = JSON.stringify({ event: `job.${job.status}`, job: { id: job.id, status: job.status } });
+  const headers: Record<string, string> = { "content-type": "application/json" };
+  if (WEBHOOK_SECRET) {
+    headers["x-webhook-signature"] = `sha256=${createHmac("sha256", WEBHOOK_SECRET).update(body).digest("hex")}`;
+  }
+  while (webhook.attempts < WEBHOOK_ATTEMPTS) {
+    webhook.attempts++;
+    try {
+      const res = await fetch(webhook.url, {
+        method: "POST",
+        headers,
+        body,
+        // A redirect could lead off the allowed hosts, so it counts as a failed delivery
+        redirect: "manual",
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+      webhook.deliveredAt = new Date().toISOString();
+      webhook.lastError = null;
+      await persist(job);
+      return;
+    } catch (err) {
+      webhook.lastError = err instanceof Error ? err.message : String(err);
+      await persist(job);
+      if (webhook.attempts < WEBHOOK_ATTEMPTS) await sleep(WEBHOOK_RETRY_DELAY_MS * webhook.attempts);
+    }
+  }
+}
@@ -0,0 +1,29 @@
+// The OpenAI resource ledger on the service: kept in a JSON file instead of process memory, so
+// /purge still finds the uploads, threads and assistants of runs cut off by a crash or restart.
+import { readFile } from "node:fs/promises";
+import { setLedgerStore, type LedgerEntry } from "@/services/providers/openaiResources";
+import { writeAtomic } from "./files";
+
+export async function initLedger(path: string) {
+  let entries: LedgerEntry[] = [];
+  try {
+    entries = JSON.parse(await readFile(path, "utf8"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`Could not read the resource ledger ${path}; starting with an empty one:`, err);
+    }
+  }
+
+  // Writes are chained so an older snapshot can never land after a newer one
+  let saved = Promise.resolve();
+  setLedgerStore({
+    read: () => entries,
+    write(next) {
+      entries = next;
+      const snapshot = JSON.stringify(next);
+      saved = saved
+        .then(() => writeAtomic(path, snapshot))
+        .catch((err) => console.error(`Could not save the resource ledger ${path}:`, err));
+    },
+  });
+}
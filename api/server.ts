@@ -0,0 +1,196 @@
+// Extraction service: runs the extraction pipeline server-side so the provider key never reaches
+// the browser. Start with `OPENAI_API_KEY=... npm run api`; the Vite dev server proxies /api here.
+//
+//   POST /extract  multipart: file, payerPlan, [provider]           -> ExtractionResult
+//   POST /compare  multipart: file + payerPlan per document (in order), [baseline], [provider]
+//                                                                     -> ComparisonMatrix
+//   POST /purge    sweeps provider objects left behind by failed runs -> PurgeReport
+//   POST /jobs     like /extract (one file) or /compare (several), plus [webhookUrl] on a host in
+//                  WEBHOOK_ALLOWED_HOSTS; runs in the background   -> 202 ExtractionJob
+//   GET  /jobs/:id status and per-document results so far            -> ExtractionJob
+//   GET  /health
+//
+// Failures answer { error: SerializedError } so the browser can rebuild the typed errors.
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { MAX_COMPARE_DOCUMENTS, PAYER_PLANS, type PayerPlan } from "@/constants/fields";
+import { compareDocuments, extractDocument, purgeOrphanedResources } from "@/services/extraction";
+import { RateLimitError, serializeError, toExtractionError, type ExtractionError } from "@/services/errors";
+import { listProviders, type ProviderId } from "@/services/providers";
+import { HttpError, formFile, readForm, sendJson } from "./http";
+import { createJob, getJob, initJobs } from "./jobs";
+import { initLedger } from "./ledger";
+
+const PORT = Number(process.env.PORT ?? 8787);
+// Loopback by default: the service holds the key and must not be reachable from elsewhere unless
+// it sits behind the deployment's own authentication
+const HOST = process.env.HOST ?? "127.0.0.1";
+const API_KEY = process.env.OPENAI_API_KEY ?? "";
+// Only needed when the frontend is served from another origin than this service
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN;
+const JOBS_DIR = process.env.JOBS_DIR ?? ".jobs";
+// Record of the OpenAI objects created and not yet deleted, for POST /purge
+const OPENAI_LEDGER_FILE = process.env.OPENAI_LEDGER_FILE ?? ".openai-resources.json";
+// Comma-separated host names webhooks may be sent to; none are allowed when unset
+const WEBHOOK_ALLOWED_HOSTS = (process.env.WEBHOOK_ALLOWED_HOSTS ?? "")
+  .split(",")
+  .map((host) => host.trim().toLowerCase())
+  .filter(Boolean);
+
+function readPlan(value: FormDataEntryValue | null): PayerPlan {
+  const plans: string[] = Object.values(PAYER_PLANS);
+  if (typeof value !== "string" || !plans.includes(value)) {
+    throw new HttpError(400, `payerPlan must be one of ${plans.join(", ")}`);
+  }
+  return value as PayerPlan;
+}
+
+function readProvider(value: FormDataEntryValue | null): ProviderId | undefined {
+  if (value === null) return undefined;
+  const ids: string[] = listProviders().map((p) => p.id);
+  if (typeof value !== "string" || !ids.includes(value)) {
+    throw new HttpError(400, `provider must be one of ${ids.join(", ")}`);
+  }
+  return value as ProviderId;
+}
+
+// One payerPlan per file, in the same order
+function readDocuments(form: FormData): { file: File; payerPlan: PayerPlan }[] {
+  const files = form.getAll("file").filter((value): value is File => value instanceof File);
+  const plans = form.getAll("payerPlan");
+  if (files.length === 0) throw new HttpError(400, 'Missing file field "file"');
+  if (plans.length !== files.length) throw new HttpError(400, "Send one payerPlan per file, in the same order");
+  return files.map((file, i) => ({ file, payerPlan: readPlan(plans[i]) }));
+}
+
+function readBaseline(form: FormData, count: number): number {
+  const baseline = Number(form.get("baseline") ?? 0);
+  if (!Number.isInteger(baseline) || baseline < 0 || baseline >= count) {
+    throw new HttpError(400, "baseline must be the index of one of the files");
+  }
+  return baseline;
+}
+
+function readWebhookUrl(value: FormDataEntryValue | null): string | undefined {
+  if (value === null || value === "") return undefined;
+  const url = typeof value === "string" && URL.canParse(value) ? new URL(value) : null;
+  if (!url || (url.protocol !== "https:" && url.protocol !== "http:")) {
+    throw new HttpError(400, "webhookUrl must be an http(s) URL");
+  }
+  if (!WEBHOOK_ALLOWED_HOSTS.includes(url.hostname)) {
+    throw new HttpError(400, `webhookUrl host ${url.hostname} is not in WEBHOOK_ALLOWED_HOSTS`);
+  }
+  return url.toString();
+}
+
+// Provider failures are upstream problems: the caller's request was fine
+function errorStatus(error: ExtractionError): number {
+  return error.kind === "rate_limit" ? 429 : 502;
+}
+
+async function route(req: IncomingMessage, res: ServerResponse) {
+  const { pathname } = new URL(req.url ?? "/", "http://localhost");
+
+  if (req.method === "GET" && pathname === "/health") {
+    sendJson(res, 200, { ok: true, keyConfigured: API_KEY !== "" });
+    return;
+  }
+  const jobPath = pathname.match(/^\/jobs\/([\w-]+)$/);
+  if (req.method === "GET" && jobPath) {
+    const job = getJob(jobPath[1]);
+    if (!job) throw new HttpError(404, `No job ${jobPath[1]}`);
+    sendJson(res, 200, job);
+    return;
+  }
+  if (req.method !== "POST") throw new HttpError(405, `${req.method} not allowed`);
+
+  switch (pathname) {
+    case "/extract": {
+      const form = await readForm(req);
+      const result = await extractDocument({
+        file: formFile(form, "file"),
+        payerPlan: readPlan(form.get("payerPlan")),
+        provider: readProvider(form.get("provider")),
+        apiKey: API_KEY,
+      });
+      sendJson(res, 200, result);
+      return;
+    }
+    case "/compare": {
+      const form = await readForm(req);
+      const documents = readDocuments(form);
+      try {
+        const matrix = await compareDocuments({
+          documents,
+          baseline: readBaseline(form, documents.length),
+          provider: readProvider(form.get("provider")),
+          apiKey: API_KEY,
+        });
+        sendJson(res, 200, matrix);
+      } catch (error) {
+        if (error instanceof RangeError) throw new HttpError(400, error.message);
+        throw error;
+      }
+      return;
+    }
+    case "/jobs": {
+      const form = await readForm(req);
+      const documents = readDocuments(form);
+      if (documents.length > MAX_COMPARE_DOCUMENTS) {
+        throw new HttpError(400, `A job takes at most ${MAX_COMPARE_DOCUMENTS} files`);
+      }
+      const job = await createJob({
+        kind: documents.length === 1 ? "extract" : "compare",
+        documents,
+        baseline: readBaseline(form, documents.length),
+        provider: readProvider(form.get("provider")),
+        webhookUrl: readWebhookUrl(form.get("webhookUrl")),
+      });
+      sendJson(res, 202, job, { location: `/jobs/${job.id}` });
+      return;
+    }
+    case "/purge": {
+      sendJson(res, 200, await purgeOrphanedResources({ apiKey: API_KEY }));
+      return;
+    }
+    default:
+      throw new HttpError(404, `No route for ${pathname}`);
+  }
+}
+
+const server = createServer(async (req, res) => {
+  const cors: Record<string, string> = ALLOWED_ORIGIN
+    ? {
+        "access-control-allow-origin": ALLOWED_ORIGIN,
+        "access-control-allow-methods": "GET, POST, OPTIONS",
+        "access-control-allow-headers": "content-type",
+      }
+    : {};
+  for (const [name, value] of Object.entries(cors)) res.setHeader(name, value);
+  if (req.method === "OPTIONS") {
+    res.writeHead(204).end();
+    return;
+  }
+
+  try {
+    await route(req, res);
+  } catch (err) {
+    if (err instanceof HttpError) {
+      sendJson(res, err.status, { error: { name: err.name, kind: "unknown", message: err.message } });
+      return;
+    }
+    const error = toExtractionError(err);
+    console.error(`${req.method} ${req.url} failed:`, error);
+    const retryAfter = error instanceof RateLimitError ? error.retryAfterSeconds : undefined;
+    sendJson(
+      res,
+      errorStatus(error),
+      { error: serializeError(error) },
+      retryAfter ? { "retry-after": String(retryAfter) } : {}
+    );
+  }
+});
+
+await initLedger(OPENAI_LEDGER_FILE);
+await initJobs({ dir: JOBS_DIR, apiKey: API_KEY });
+if (!API_KEY) console.warn("OPENAI_API_KEY is not set: only the rules provider will work");
+server.listen(PORT, HOST, () => console.log(`Extraction service listening on http://${HOST}:${PORT}`));
@@ -0,0 +1,375 @@
+#!/usr/bin/env tsx
+// payer-compare: the extraction pipeline without the UI, for headless jobs such as the nightly
+// renewal run. Runs extraction.ts in-process with OPENAI_API_KEY, like the extraction service.
+//
+//   payer-compare extract <pdf> --plan QLM [--format json|csv]
+//   payer-compare compare <baseline.pdf> <other.pdf>... --plan QLM [--plan ALKOOT ...] [--format json|csv]
+//   payer-compare batch <dir> --plan QLM [--baseline <pdf>] [--concurrency 3] [--format json|csv]
+//   payer-compare evaluate <corpus-dir> [--runs-dir <dir>] [--against <run.json>] [--format json|csv]
+//
+// Results go to stdout (or --out), progress and summaries to stderr. Exit codes follow diff(1):
+// 0 no differences, 1 differences from the baseline (evaluate: regressions against the previous
+// run), 2 extraction failures or bad usage.
+import { mkdir, readFile, readdir, writeFile } from "node:fs/promises";
+import { basename, join, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { FIELD_MAPPINGS, MAX_COMPARE_DOCUMENTS, PAYER_PLANS, type PayerPlan } from "@/constants/fields";
+import { buildComparisonMatrix, countDifferences } from "@/services/compare";
+import { compareDocuments, extractDocument } from "@/services/extraction";
+import { ComparisonFailedError, toExtractionError } from "@/services/errors";
+import { comparisonToRows, documentToRows, toCsv, toExportJson } from "@/services/export";
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  batchToRows,
+  queueBatchItems,
+  runExtractionBatch,
+  type BatchItem,
+} from "@/services/batch";
+import {
+  buildEvaluationRun,
+  diffRuns,
+  evaluationToRows,
+  formatEvaluationReport,
+  scoreDocument,
+  type EvaluationRun,
+  type LabelledDocument,
+} from "@/services/evaluation";
+import { listProviders, modelFor, type ProviderId } from "@/services/providers";
+
+const EXIT_SAME = 0;
+const EXIT_DIFFERENT = 1;
+const EXIT_FAILED = 2;
+
+const USAGE = `Usage:
+  payer-compare extract <pdf> --plan <plan> [--format json|csv]
+  payer-compare compare <baseline.pdf> <other.pdf>... --plan <plan> [--plan <plan> ...] [--format json|csv]
+  payer-compare batch <dir> --plan <plan> [--baseline <pdf>] [--concurrency <n>] [--format json|csv]
+  payer-compare evaluate <corpus-dir> [--runs-dir <dir>] [--against <run.json>] [--format json|csv]
+
+Options:
+  --plan         ${Object.values(PAYER_PLANS).join(" | ")}; once for all files or once per file, in order
+  --provider     ${listProviders().map((p) => p.id).join(" | ")} (default: the plan's provider)
+  --format       json (default) or csv
+  --out          write the result to this file instead of stdout
+  --baseline     batch: compare every PDF in <dir> against this one
+  --concurrency  batch, evaluate: files extracted at once (default ${DEFAULT_BATCH_CONCURRENCY})
+  --runs-dir     evaluate: where runs are kept (default <corpus-dir>/runs)
+  --against      evaluate: the run to diff against (default the latest in --runs-dir)
+
+A corpus holds each PDF next to its labels: policy.pdf and policy.expected.json with
+{ "payerPlan": "QLM", "expected": { "insured": "ACME Corp", "plan": null, ... } }.
+
+Exit codes: 0 no differences, 1 differences from the baseline or regressions against the previous
+evaluation, 2 failures or bad usage.
+OPENAI_API_KEY must be set unless --provider rules is used.`;
+
+class UsageError extends Error {
+  name = "UsageError";
+}
+
+type Format = "json" | "csv";
+
+interface Options {
+  plans: PayerPlan[];
+  provider?: ProviderId;
+  format: Format;
+  out?: string;
+  baseline?: string;
+  concurrency: number;
+  runsDir?: string;
+  against?: string;
+}
+
+const apiKey = process.env.OPENAI_API_KEY ?? "";
+
+function readOptions(values: Record<string, string | string[] | boolean | undefined>): Options {
+  const plans = (values.plan as string[] | undefined) ?? [];
+  const known: string[] = Object.values(PAYER_PLANS);
+  const unknownPlan = plans.find((plan) => !known.includes(plan));
+  if (unknownPlan) throw new UsageError(`Unknown plan ${unknownPlan}; use one of ${known.join(", ")}`);
+
+  const provider = values.provider as string | undefined;
+  const providers: string[] = listProviders().map((p) => p.id);
+  if (provider !== undefined && !providers.includes(provider)) {
+    throw new UsageError(`Unknown provider ${provider}; use one of ${providers.join(", ")}`);
+  }
+
+  const format = (values.format as string | undefined) ?? "json";
+  if (format !== "json" && format !== "csv") throw new UsageError("--format must be json or csv");
+
+  const concurrency = Number(values.concurrency ?? DEFAULT_BATCH_CONCURRENCY);
+  if (!Number.isInteger(concurrency) || concurrency < 1) throw new UsageError("--concurrency must be a positive integer");
+
+  return {
+    plans: plans as PayerPlan[],
+    provider: provider as ProviderId | undefined,
+    format,
+    out: values.out as string | undefined,
+    baseline: values.baseline as string | undefined,
+    concurrency,
+    runsDir: values["runs-dir"] as string | undefined,
+    against: values.against as string | undefined,
+  };
+}
+
+// One --plan for every file, or one per file in the same order
+function plansFor(options: Options, count: number): PayerPlan[] {
+  if (options.plans.length === 0) throw new UsageError("--plan is required");
+  if (options.plans.length === 1) return Array(count).fill(options.plans[0]);
+  if (options.plans.length === count) return options.plans;
+  throw new UsageError(`Give one --plan for all files or one per file (${count}), not ${options.plans.length}`);
+}
+
+const extractInProcess: Parameters<typeof runExtractionBatch>[0]["extract"] = ({ file, payerPlan, provider, onStage }) =>
+  extractDocument({ file, payerPlan, apiKey, provider, onStage });
+
+async function readPdf(path: string): Promise<File> {
+  return new File([await readFile(path)], basename(path), { type: "application/pdf" });
+}
+
+// Per-file progress of runExtractionBatch on stderr
+function logProgress(total: number): (index: number, item: BatchItem) => void {
+  let done = 0;
+  return (_, item) => {
+    if (item.state === "parsed" || item.state === "failed") {
+      done++;
+      console.error(`[${done}/${total}] ${item.file.name}: ${item.state === "parsed" ? "parsed" : item.error?.message}`);
+    } else if (item.state === "retried") {
+      console.error(`${item.file.name}: attempt ${item.attempts} failed (${item.error?.message}), retrying`);
+    }
+  };
+}
+
+async function emit(content: string, options: Options) {
+  if (options.out) await writeFile(options.out, content);
+  else process.stdout.write(content.endsWith("\n") ? content : `${content}\n`);
+}
+
+async function runExtract(paths: string[], options: Options): Promise<number> {
+  if (paths.length !== 1) throw new UsageError("extract takes exactly one PDF");
+  const [payerPlan] = plansFor(options, 1);
+  const file = await readPdf(paths[0]);
+  const result = await extractDocument({ file, payerPlan, apiKey, provider: options.provider });
+  const document = { fileName: file.name, result };
+  await emit(options.format === "csv" ? toCsv(documentToRows(document)) : toExportJson({ documents: [document] }), options);
+  return EXIT_SAME;
+}
+
+async function runCompare(paths: string[], options: Options): Promise<number> {
+  if (paths.length < 2 || paths.length > MAX_COMPARE_DOCUMENTS) {
+    throw new UsageError(`compare takes 2 to ${MAX_COMPARE_DOCUMENTS} PDFs, the first being the baseline`);
+  }
+  const plans = plansFor(options, paths.length);
+  const documents = await Promise.all(
+    paths.map(async (path, i) => ({ file: await readPdf(path), payerPlan: plans[i] }))
+  );
+  const matrix = await compareDocuments({ documents, apiKey, provider: options.provider });
+
+  const output = options.format === "csv"
+    ? toCsv(comparisonToRows(matrix))
+    : toExportJson({
+        documents: matrix.documents.map(({ fileName }, i) => ({ fileName, result: matrix.results[i] })),
+        matrix,
+      });
+  await emit(output, options);
+
+  const differences = countDifferences(matrix);
+  const baseline = matrix.documents[matrix.baseline].fileName;
+  matrix.documents.forEach(({ fileName }, i) => {
+    if (i !== matrix.baseline) console.error(`${fileName}: ${differences[i]} difference(s) from ${baseline}`);
+  });
+  return differences.some((count) => count > 0) ? EXIT_DIFFERENT : EXIT_SAME;
+}
+
+async function runBatch(paths: string[], options: Options): Promise<number> {
+  if (paths.length !== 1) throw new UsageError("batch takes exactly one directory");
+  const dir = resolve(paths[0]);
+  const [payerPlan] = plansFor(options, 1);
+  const baselinePath = options.baseline && resolve(options.baseline);
+  const pdfs = (await readdir(dir))
+    .filter((name) => name.toLowerCase().endsWith(".pdf"))
+    .map((name) => join(dir, name))
+    .filter((path) => path !== baselinePath)
+    .sort();
+  if (pdfs.length === 0) throw new UsageError(`No PDFs in ${dir}`);
+
+  const baseline = baselinePath
+    ? await extractDocument({ file: await readPdf(baselinePath), payerPlan, apiKey, provider: options.provider })
+    : null;
+
+  const items = await runExtractionBatch({
+    items: queueBatchItems(await Promise.all(pdfs.map(readPdf)), payerPlan),
+    provider: options.provider,
+    concurrency: options.concurrency,
+    extract: extractInProcess,
+    onUpdate: logProgress(pdfs.length),
+  });
+
+  // Differences of each parsed file from the baseline; null without a baseline or a result
+  const differences = items.map((item) =>
+    baseline && item.result
+      ? countDifferences(
+          buildComparisonMatrix(
+            [
+              { fileName: basename(baselinePath), payerPlan },
+              { fileName: item.file.name, payerPlan },
+            ],
+            [baseline, item.result]
+          )
+        )[1]
+      : null
+  );
+
+  if (options.format === "csv") {
+    const [header, ...rows] = batchToRows(items, FIELD_MAPPINGS[payerPlan]);
+    const table = baseline
+      ? [[...header, "Differences from baseline"], ...rows.map((row, i) => [...row, differences[i]?.toString() ?? ""])]
+      : [header, ...rows];
+    await emit(toCsv(table), options);
+  } else {
+    const documents = items
+      .filter((item) => item.result)
+      .map((item) => ({ fileName: item.file.name, result: item.result! }));
+    await emit(toExportJson({ documents }), options);
+  }
+
+  const failed = items.filter((item) => item.state === "failed").length;
+  const differing = differences.filter((count) => count !== null && count > 0).length;
+  console.error(
+    `${items.length - failed} parsed, ${failed} failed` +
+      (baseline ? `, ${differing} differ from ${basename(baselinePath)}` : "")
+  );
+  if (failed > 0) return EXIT_FAILED;
+  return differing > 0 ? EXIT_DIFFERENT : EXIT_SAME;
+}
+
+const LABELS_SUFFIX = ".expected.json";
+
+async function readCorpus(dir: string): Promise<{ labelled: LabelledDocument; file: File }[]> {
+  const names = await readdir(dir);
+  const corpus: { labelled: LabelledDocument; file: File }[] = [];
+  for (const name of names.filter((n) => n.toLowerCase().endsWith(".pdf")).sort()) {
+    const labelsName = name.replace(/\.pdf$/i, LABELS_SUFFIX);
+    if (!names.includes(labelsName)) {
+      console.error(`${name}: no ${labelsName}, skipped`);
+      continue;
+    }
+    const labels = JSON.parse(await readFile(join(dir, labelsName), "utf8"));
+    const plans: string[] = Object.values(PAYER_PLANS);
+    if (!plans.includes(labels.payerPlan)) {
+      throw new UsageError(`${labelsName}: payerPlan must be one of ${plans.join(", ")}`);
+    }
+    const payerPlan = labels.payerPlan as PayerPlan;
+    const keys = FIELD_MAPPINGS[payerPlan].map((f) => f.key);
+    for (const [key, value] of Object.entries(labels.expected ?? {})) {
+      if (!keys.includes(key)) throw new UsageError(`${labelsName}: ${key} is not a ${payerPlan} field`);
+      if (value !== null && typeof value !== "string") throw new UsageError(`${labelsName}: ${key} must be a string or null`);
+    }
+    corpus.push({
+      labelled: { fileName: name, payerPlan, expected: labels.expected ?? {} },
+      file: await readPdf(join(dir, name)),
+    });
+  }
+  return corpus;
+}
+
+// The newest run in the directory; run files are named by their start time
+async function latestRun(runsDir: string): Promise<EvaluationRun | null> {
+  const names = (await readdir(runsDir).catch(() => [] as string[])).filter((n) => n.endsWith(".json")).sort();
+  const last = names[names.length - 1];
+  return last ? JSON.parse(await readFile(join(runsDir, last), "utf8")) : null;
+}
+
+async function runEvaluate(paths: string[], options: Options): Promise<number> {
+  if (paths.length !== 1) throw new UsageError("evaluate takes exactly one corpus directory");
+  const dir = resolve(paths[0]);
+  const runsDir = resolve(options.runsDir ?? join(dir, "runs"));
+  const corpus = await readCorpus(dir);
+  if (corpus.length === 0) throw new UsageError(`No labelled PDFs in ${dir}`);
+
+  const previous = options.against
+    ? (JSON.parse(await readFile(options.against, "utf8")) as EvaluationRun)
+    : await latestRun(runsDir);
+
+  const startedAt = new Date();
+  const items = await runExtractionBatch({
+    items: corpus.map(({ file, labelled }) => ({ file, payerPlan: labelled.payerPlan, state: "queued", attempts: 0 })),
+    provider: options.provider,
+    concurrency: options.concurrency,
+    extract: extractInProcess,
+    onUpdate: logProgress(corpus.length),
+  });
+
+  const run = buildEvaluationRun(
+    items.map((item, i) =>
+      scoreDocument(
+        corpus[i].labelled,
+        item.result ?? null,
+        modelFor(item.payerPlan, options.provider),
+        item.state === "failed" ? item.error?.message ?? "Extraction failed" : null
+      )
+    ),
+    { startedAt, provider: options.provider ?? null }
+  );
+  const diff = previous ? diffRuns(previous, run) : null;
+
+  await mkdir(runsDir, { recursive: true });
+  const runFile = join(runsDir, `${run.startedAt.replace(/[:.]/g, "-")}.json`);
+  await writeFile(runFile, JSON.stringify(run, null, 2));
+
+  await emit(options.format === "csv" ? toCsv(evaluationToRows(run)) : JSON.stringify({ run, diff }, null, 2), options);
+  console.error(`${formatEvaluationReport(run, diff)}\nSaved as ${runFile}`);
+
+  if (run.documents.some((doc) => doc.error)) return EXIT_FAILED;
+  return diff && diff.regressions.length > 0 ? EXIT_DIFFERENT : EXIT_SAME;
+}
+
+const COMMANDS: Record<string, (paths: string[], options: Options) => Promise<number>> = {
+  extract: runExtract,
+  compare: runCompare,
+  batch: runBatch,
+  evaluate: runEvaluate,
+};
+
+async function main(argv: string[]): Promise<number> {
+  const { positionals, values } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      plan: { type: "string", multiple: true },
+      provider: { type: "string" },
+      format: { type: "string" },
+      out: { type: "string" },
+      baseline: { type: "string" },
+      concurrency: { type: "string" },
+      "runs-dir": { type: "string" },
+      against: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_SAME;
+  }
+
+  const [command, ...paths] = positionals;
+  const run = COMMANDS[command];
+  if (!run) throw new UsageError(command ? `Unknown command ${command}` : "Missing command");
+  return run(paths, readOptions(values));
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((err) => {
+    if (err instanceof UsageError || (err instanceof TypeError && "code" in err)) {
+      // parseArgs reports unknown or malformed options as TypeErrors with an ERR_PARSE_ARGS_* code
+      console.error(`${err.message}\n\n${USAGE}`);
+    } else if (err instanceof ComparisonFailedError) {
+      for (const { fileName, error } of err.failures) console.error(`${fileName}: ${error.message}`);
+    } else {
+      console.error(toExtractionError(err).message);
+    }
+    process.exitCode = EXIT_FAILED;
+  });
@@ -0,0 +1,100 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Download, Layers, RotateCw } from "lucide-react";
+import type { FieldDefinition } from "@/constants/fields";
+import type { BatchItem, BatchItemState } from "@/services/batch";
+import { cn } from "@/lib/utils";
+
+interface BatchResultsProps {
+  items: BatchItem[];
+  fields: FieldDefinition[];
+  isRunning: boolean;
+  onRetryFailed: () => void;
+  onExport: () => void;
+}
+
+const STATE_DISPLAY: Record<BatchItemState, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-muted text-muted-foreground' },
+  uploading: { label: 'Uploading', className: 'bg-primary/10 text-primary' },
+  running: { label: 'Running', className: 'bg-primary/10 text-primary' },
+  parsed: { label: 'Parsed', className: 'bg-success-light text-success' },
+  failed: { label: 'Failed', className: 'bg-destructive-light text-destructive' },
+  retried: { label: 'Retrying', className: 'bg-warning-light text-warning' },
+};
+
+export const BatchResults = ({ items, fields, isRunning, onRetryFailed, onExport }: BatchResultsProps) => {
+  const parsed = items.filter((item) => item.state === 'parsed').length;
+  const failed = items.filter((item) => item.state === 'failed').length;
+  const done = parsed + failed;
+
+  return (
+    <Card className="bg-card shadow-md">
+      <CardHeader className="pb-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Layers className="h-5 w-5 text-primary" />
+            Batch Results
+          </CardTitle>
+          <div className="flex gap-2">
+            {failed > 0 && (
+              <Button variant="secondary" size="sm" onClick={onRetryFailed} disabled={isRunning}>
+                <RotateCw className="h-4 w-4 mr-2" />
+                Retry failed ({failed})
+              </Button>
+            )}
+            <Button variant="secondary" size="sm" onClick={onExport} disabled={parsed === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Export spreadsheet
+            </Button>
+          </div>
+        </div>
+        <Progress value={items.length > 0 ? (done / items.length) * 100 : 0} className="h-2" />
+        <p className="text-sm text-muted-foreground">
+          {done} of {items.length} processed · {parsed} parsed{failed > 0 && ` · ${failed} failed`}
+        </p>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow className="border-border">
+              <TableHead className="font-semibold text-foreground min-w-48">File</TableHead>
+              <TableHead className="font-semibold text-foreground">Status</TableHead>
+              {fields.map((field) => (
+                <TableHead key={field.key} className="font-semibold text-foreground min-w-32">
+                  {field.label}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item, index) => (
+              <TableRow key={`${item.file.name}-${index}`} className="border-border hover:bg-muted/50">
+                <TableCell className="font-medium text-foreground">
+                  <span className="block truncate max-w-64" title={item.file.name}>{item.file.name}</span>
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    variant="secondary"
+                    className={cn(STATE_DISPLAY[item.state].className, "whitespace-nowrap")}
+                    title={item.error?.message}
+                  >
+                    {STATE_DISPLAY[item.state].label}
+                    {item.attempts > 1 && ` (attempt ${item.attempts})`}
+                  </Badge>
+                </TableCell>
+                {fields.map((field) => (
+                  <TableCell key={field.key} className="text-muted-foreground">
+                    {item.result?.data[field.key] ?? ''}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,45 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+
+interface CacheControlsProps {
+  id: string;
+  // Extract again even when a cached result exists
+  bypass: boolean;
+  onBypassChange: (bypass: boolean) => void;
+  onInvalidate: () => Promise<void>;
+}
+
+export const CacheControls = ({ id, bypass, onBypassChange, onInvalidate }: CacheControlsProps) => {
+  const [isClearing, setIsClearing] = useState(false);
+
+  const handleInvalidate = async () => {
+    setIsClearing(true);
+    try {
+      await onInvalidate();
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <div className="flex items-center gap-2">
+        <Checkbox id={id} checked={bypass} onCheckedChange={(checked) => onBypassChange(checked === true)} />
+        <Label htmlFor={id} className="text-xs font-normal text-muted-foreground">
+          Re-extract, skip cache
+        </Label>
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={handleInvalidate}
+        disabled={isClearing}
+        className="h-6 px-2 text-xs text-muted-foreground"
+      >
+        {isClearing ? 'Clearing...' : 'Clear cached results'}
+      </Button>
+    </div>
+  );
+};
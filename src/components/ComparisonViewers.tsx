@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import { PdfViewer } from "@/components/PdfViewer";
+import type { ComparisonMatrix } from "@/constants/fields";
+
+interface ComparisonViewersProps {
+  matrix: ComparisonMatrix;
+  // Source PDFs in document order
+  files: File[];
+  selectedField: string | null;
+  onFieldSelect: (field: string) => void;
+}
+
+// The baseline next to one other document; both follow the selected field
+export const ComparisonViewers = ({ matrix, files, selectedField, onFieldSelect }: ComparisonViewersProps) => {
+  const [chosen, setChosen] = useState<number | null>(null);
+  const others = matrix.documents.map((_, i) => i).filter((i) => i !== matrix.baseline);
+  const other = chosen !== null && others.includes(chosen) ? chosen : others[0];
+
+  const rowIndex = matrix.rows.findIndex((row) => row.field === selectedField);
+  const row = rowIndex >= 0 ? matrix.rows[rowIndex] : null;
+  const step = (delta: number) => {
+    const next = matrix.rows[rowIndex + delta];
+    if (next) onFieldSelect(next.field);
+  };
+
+  if (!files[matrix.baseline] || !files[other]) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div className="space-y-1 min-w-48">
+          <Label htmlFor="compare-viewer-document" className="text-sm font-medium text-foreground">
+            Compare baseline with
+          </Label>
+          <Select value={String(other)} onValueChange={(v) => setChosen(Number(v))}>
+            <SelectTrigger id="compare-viewer-document" className="w-full bg-card border-border shadow-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-popover border-border shadow-lg">
+              {others.map((i) => (
+                <SelectItem key={i} value={String(i)}>
+                  {matrix.documents[i].fileName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <span>{row ? row.label : 'Select a field in the table'}</span>
+          <Button
+            variant="secondary"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => step(-1)}
+            disabled={rowIndex <= 0}
+            aria-label="Previous field"
+          >
+            <ChevronUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="secondary"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => (rowIndex < 0 ? onFieldSelect(matrix.rows[0].field) : step(1))}
+            disabled={rowIndex >= matrix.rows.length - 1}
+            aria-label="Next field"
+          >
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <PdfViewer
+          file={files[matrix.baseline]}
+          title={`Baseline · ${matrix.documents[matrix.baseline].fileName}`}
+          target={row?.cells[matrix.baseline].evidence}
+        />
+        <PdfViewer file={files[other]} target={row?.cells[other].evidence} />
+      </div>
+    </div>
+  );
+};
@@ -1,33 +1,343 @@
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Fragment, useState, type ReactNode } from "react";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle, XCircle, AlertCircle, FileText } from "lucide-react";
-import type { ExtractedData, ComparisonResult } from "@/constants/fields";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  CheckCircle,
+  XCircle,
+  AlertCircle,
+  FileText,
+  ChevronRight,
+  Quote,
+  ShieldAlert,
+  Equal,
+  PlusCircle,
+  MinusCircle,
+  CircleSlash,
+  Pencil,
+  PenLine,
+  Check,
+  X,
+  type LucideIcon,
+} from "lucide-react";
+import {
+  VALUE_KIND_LABELS,
+  type ComparisonStatus,
+  type ExtractedData,
+  type ExtractionResult,
+  type ComparisonMatrix,
+  type ComparisonRow,
+  type FieldCorrection,
+  type FieldDefinition,
+  type FieldEvidence,
+} from "@/constants/fields";
+import { DEFAULT_REVIEW_THRESHOLD, needsReview } from "@/services/confidence";
+import { DIFFERENCE_STATUSES, cellFieldKey, countDifferences } from "@/services/compare";
+import { fieldHistory } from "@/services/corrections";
 import { cn } from "@/lib/utils";
 
 interface ExtractedDataTableProps {
   mode: 'single' | 'compare';
+  fields?: FieldDefinition[];
   data?: ExtractedData;
-  comparisonData?: ComparisonResult[];
+  evidence?: ExtractionResult["evidence"];
+  confidence?: ExtractionResult["confidence"];
+  reviewThreshold?: number;
   fileName?: string;
-  fileNames?: [string, string];
+  matrix?: ComparisonMatrix;
+  onBaselineChange?: (index: number) => void;
+  // Rendered in the card header, e.g. export actions
+  actions?: ReactNode;
+  // Row clicks select a field, e.g. to show it in the PDF viewer
+  selectedField?: string | null;
+  onFieldSelect?: (field: string) => void;
+  // Single mode: correction history of the document
+  corrections?: FieldCorrection[];
+  // Enables inline editing; compare mode passes the document index and the payer field key
+  onCorrect?: (field: string, value: string | null, document?: number) => void;
 }
 
+const STATUS_DISPLAY: Record<
+  ComparisonStatus,
+  { label: string; title: string; icon: LucideIcon; badgeClass: string; cellClass?: string }
+> = {
+  same: {
+    label: 'Same',
+    title: 'Identical to the baseline',
+    icon: CheckCircle,
+    badgeClass: 'bg-success-light text-success',
+  },
+  equivalent: {
+    label: 'Equivalent',
+    title: 'Written differently, same value after normalization',
+    icon: Equal,
+    badgeClass: 'bg-success-light text-success',
+  },
+  conflicting: {
+    label: 'Conflicting',
+    title: 'Differs from the baseline',
+    icon: AlertCircle,
+    badgeClass: 'bg-warning-light text-warning',
+    cellClass: 'bg-diff-changed',
+  },
+  added: {
+    label: 'Added',
+    title: 'Not in the baseline',
+    icon: PlusCircle,
+    badgeClass: 'bg-success-light text-success',
+    cellClass: 'bg-diff-added',
+  },
+  removed: {
+    label: 'Removed',
+    title: 'Only in the baseline',
+    icon: MinusCircle,
+    badgeClass: 'bg-destructive-light text-destructive',
+    cellClass: 'bg-diff-removed',
+  },
+  missing: {
+    label: 'Missing',
+    title: 'Found in neither this document nor the baseline',
+    icon: XCircle,
+    badgeClass: 'bg-muted text-muted-foreground',
+    cellClass: 'bg-muted/30',
+  },
+  not_applicable: {
+    label: 'Not applicable',
+    title: "Not in this payer's or the baseline payer's schedule",
+    icon: CircleSlash,
+    badgeClass: 'bg-muted text-muted-foreground',
+    cellClass: 'bg-muted/30',
+  },
+};
+
+type StatusFilter = ComparisonStatus | 'all' | 'changes';
+
+const StatusBadge = ({ status }: { status: ComparisonStatus }) => {
+  const { label, title, icon: Icon, badgeClass } = STATUS_DISPLAY[status];
+  return (
+    <Badge variant="secondary" className={cn(badgeClass, "whitespace-nowrap")} title={title}>
+      <Icon className="h-3 w-3 mr-1" />
+      {label}
+    </Badge>
+  );
+};
+
+const EvidenceDetails = ({ evidence, label }: { evidence?: FieldEvidence | null; label?: string }) => {
+  if (!evidence) {
+    return (
+      <p className="text-xs text-muted-foreground italic">
+        {label ? `${label}: ` : ''}No source citation
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-foreground">
+        {label ? `${label} · ` : ''}
+        {evidence.page ? `Page ${evidence.page}` : 'Page unknown'}
+        {evidence.bbox && (
+          <span className="text-muted-foreground font-normal">
+            {' '}· at ({Math.round(evidence.bbox.x)}, {Math.round(evidence.bbox.y)})
+          </span>
+        )}
+      </p>
+      {evidence.snippet ? (
+        <blockquote className="flex gap-2 text-xs text-muted-foreground border-l-2 border-primary/40 pl-2 whitespace-pre-line">
+          <Quote className="h-3 w-3 shrink-0 mt-0.5" />
+          {evidence.snippet}
+        </blockquote>
+      ) : (
+        <p className="text-xs text-muted-foreground italic">No quoted snippet</p>
+      )}
+    </div>
+  );
+};
+
+const ConfidenceLabel = ({ value }: { value?: number | null }) =>
+  value === null || value === undefined ? null : (
+    <span className="ml-2 text-xs text-muted-foreground/70">{Math.round(value * 100)}%</span>
+  );
+
+// Cross-payer rows: a benefit the payer does not list is not the same as one the PDF lacks
+const NotFound = ({ source }: { source?: string | null }) => (
+  <span className="text-muted-foreground italic">
+    {source === null ? 'Not in this payer\'s schedule' : 'Not found'}
+  </span>
+);
+
+const SourceLabel = ({ source }: { source?: string | null }) =>
+  source ? <span className="block text-xs text-muted-foreground/70">{source}</span> : null;
+
+const NeedsReviewBadge = () => (
+  <Badge variant="secondary" className="bg-warning-light text-warning whitespace-nowrap">
+    <ShieldAlert className="h-3 w-3 mr-1" />
+    Needs review
+  </Badge>
+);
+
+const CorrectedBadge = ({ history }: { history: FieldCorrection[] }) =>
+  history.length === 0 ? null : (
+    <Badge
+      variant="secondary"
+      className="bg-primary/10 text-primary whitespace-nowrap"
+      title={`Extracted value: ${history[0].previous ?? 'not found'}`}
+    >
+      <PenLine className="h-3 w-3 mr-1" />
+      Corrected
+    </Badge>
+  );
+
+const CorrectionHistory = ({ history }: { history: FieldCorrection[] }) =>
+  history.length === 0 ? null : (
+    <ul className="mt-2 space-y-0.5 text-xs text-muted-foreground">
+      {history.map((c, i) => (
+        <li key={i}>
+          <span className="font-medium text-foreground">{c.author}</span>
+          {' '}· {new Date(c.correctedAt).toLocaleString()}:{' '}
+          <span className="line-through">{c.previous ?? 'Not found'}</span> → {c.value ?? 'Not found'}
+        </li>
+      ))}
+    </ul>
+  );
+
+// Inline editor for one value; saving an empty value records the field as not found
+const EditableValue = ({
+  value,
+  label,
+  onSave,
+  children,
+}: {
+  value: string | null;
+  label: string;
+  onSave?: (value: string | null) => void;
+  children: ReactNode;
+}) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  if (!onSave) return <>{children}</>;
+
+  if (draft === null) {
+    return (
+      <div className="group flex items-start gap-1">
+        <div className="min-w-0">{children}</div>
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            setDraft(value ?? '');
+          }}
+          aria-label={`Correct ${label}`}
+          title="Correct this value"
+          className="inline-flex h-5 w-5 shrink-0 items-center justify-center rounded opacity-0 hover:bg-muted focus:opacity-100 group-hover:opacity-100"
+        >
+          <Pencil className="h-3 w-3" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="flex items-center gap-1"
+      onClick={(e) => e.stopPropagation()}
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave(draft);
+        setDraft(null);
+      }}
+    >
+      <Input
+        autoFocus
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => e.key === 'Escape' && setDraft(null)}
+        placeholder="Empty if not in the document"
+        aria-label={`Corrected ${label}`}
+        className="h-8 min-w-32"
+      />
+      <Button type="submit" variant="ghost" size="sm" className="h-8 w-8 p-0" aria-label="Save correction">
+        <Check className="h-4 w-4" />
+      </Button>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0"
+        onClick={() => setDraft(null)}
+        aria-label="Cancel correction"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </form>
+  );
+};
+
+const ExpandToggle = ({ open, onClick }: { open: boolean; onClick: () => void }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    aria-expanded={open}
+    aria-label={open ? 'Hide source' : 'Show source'}
+    className="mr-1 inline-flex h-5 w-5 items-center justify-center rounded hover:bg-muted"
+  >
+    <ChevronRight className={cn("h-4 w-4 text-muted-foreground transition-transform", open && "rotate-90")} />
+  </button>
+);
+
 export const ExtractedDataTable = ({ 
   mode, 
+  fields,
   data, 
-  comparisonData, 
-  fileName, 
-  fileNames 
+  evidence,
+  confidence,
+  reviewThreshold = DEFAULT_REVIEW_THRESHOLD,
+  fileName,
+  matrix,
+  onBaselineChange,
+  actions,
+  selectedField,
+  onFieldSelect,
+  corrections = [],
+  onCorrect,
 }: ExtractedDataTableProps) => {
-  if (mode === 'single' && data) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+
+  const toggle = (field: string) =>
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(field)) next.delete(field);
+      else next.add(field);
+      return next;
+    });
+
+  const rowProps = (field: string) =>
+    onFieldSelect
+      ? {
+          onClick: () => onFieldSelect(field),
+          'aria-selected': selectedField === field,
+          className: cn(
+            "border-border hover:bg-muted/50 cursor-pointer",
+            selectedField === field && "bg-primary/10 hover:bg-primary/10"
+          ),
+        }
+      : { className: "border-border hover:bg-muted/50" };
+
+  if (mode === 'single' && data && fields) {
     return (
       <Card className="bg-card shadow-md">
         <CardHeader className="pb-4">
-          <CardTitle className="flex items-center gap-2 text-lg">
-            <FileText className="h-5 w-5 text-primary" />
-            Extracted Data - {fileName}
-          </CardTitle>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <FileText className="h-5 w-5 text-primary" />
+              Extracted Data - {fileName}
+            </CardTitle>
+            {actions}
+          </div>
         </CardHeader>
         <CardContent>
           <Table>
@@ -35,31 +345,65 @@ export const ExtractedDataTable = ({
               <TableRow className="border-border">
                 <TableHead className="font-semibold text-foreground">Field</TableHead>
                 <TableHead className="font-semibold text-foreground">Value</TableHead>
-                <TableHead className="font-semibold text-foreground w-24">Status</TableHead>
+                <TableHead className="font-semibold text-foreground w-32">Status</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {Object.entries(data).map(([field, value]) => (
-                <TableRow key={field} className="border-border hover:bg-muted/50">
-                  <TableCell className="font-medium text-foreground">{field}</TableCell>
-                  <TableCell className="text-muted-foreground">
-                    {value || <span className="text-muted-foreground italic">Not found</span>}
-                  </TableCell>
-                  <TableCell>
-                    {value ? (
-                      <Badge variant="secondary" className="bg-success-light text-success">
-                        <CheckCircle className="h-3 w-3 mr-1" />
-                        Found
-                      </Badge>
-                    ) : (
-                      <Badge variant="secondary" className="bg-muted text-muted-foreground">
-                        <XCircle className="h-3 w-3 mr-1" />
-                        Missing
-                      </Badge>
+              {fields.map(({ key: field, label, kind, required }) => {
+                const value = data[field] ?? null;
+                const history = corrections.filter((c) => c.field === field);
+                return (
+                  <Fragment key={field}>
+                    <TableRow {...rowProps(field)}>
+                      <TableCell className="font-medium text-foreground">
+                        <ExpandToggle open={expanded.has(field)} onClick={() => toggle(field)} />
+                        {label}
+                        {required && <span className="text-destructive"> *</span>}
+                        <span className="block pl-6 text-xs font-normal text-muted-foreground/70">
+                          {VALUE_KIND_LABELS[kind]}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        <EditableValue
+                          value={value}
+                          label={label}
+                          onSave={onCorrect && ((corrected) => onCorrect(field, corrected))}
+                        >
+                          {value || <span className="text-muted-foreground italic">Not found</span>}
+                          {value && <ConfidenceLabel value={confidence?.[field]} />}
+                        </EditableValue>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {value ? (
+                            <>
+                              <Badge variant="secondary" className="bg-success-light text-success">
+                                <CheckCircle className="h-3 w-3 mr-1" />
+                                Found
+                              </Badge>
+                              {needsReview(confidence?.[field], reviewThreshold) && <NeedsReviewBadge />}
+                            </>
+                          ) : (
+                            <Badge variant="secondary" className="bg-muted text-muted-foreground">
+                              <XCircle className="h-3 w-3 mr-1" />
+                              Missing
+                            </Badge>
+                          )}
+                          <CorrectedBadge history={history} />
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                    {expanded.has(field) && (
+                      <TableRow className="border-border bg-muted/20 hover:bg-muted/20">
+                        <TableCell colSpan={3} className="pl-10">
+                          <EvidenceDetails evidence={evidence?.[field]} />
+                          <CorrectionHistory history={history} />
+                        </TableCell>
+                      </TableRow>
                     )}
-                  </TableCell>
-                </TableRow>
-              ))}
+                  </Fragment>
+                );
+              })}
             </TableBody>
           </Table>
         </CardContent>
@@ -67,75 +411,150 @@ export const ExtractedDataTable = ({
     );
   }
 
-  if (mode === 'compare' && comparisonData && fileNames) {
+  if (mode === 'compare' && matrix) {
+    const { documents, baseline, rows } = matrix;
+    const others = documents.map((_, i) => i).filter((i) => i !== baseline);
+    // A row matches a status when any non-baseline document has it
+    const rowHas = (row: ComparisonRow, statuses: ComparisonStatus[]) =>
+      others.some((i) => statuses.includes(row.cells[i].status));
+    const countOf = (statuses: ComparisonStatus[]) => rows.filter((row) => rowHas(row, statuses)).length;
+    const visibleRows = rows.filter((row) =>
+      statusFilter === 'all'
+        ? true
+        : statusFilter === 'changes'
+          ? rowHas(row, DIFFERENCE_STATUSES)
+          : rowHas(row, [statusFilter])
+    );
+    const differences = countDifferences(matrix);
+
     return (
       <Card className="bg-card shadow-md">
         <CardHeader className="pb-4">
-          <CardTitle className="flex items-center gap-2 text-lg">
-            <FileText className="h-5 w-5 text-primary" />
-            Comparison Results
-          </CardTitle>
-          <div className="flex items-center gap-4 text-sm text-muted-foreground">
-            <span className="flex items-center gap-1">
-              <div className="w-3 h-3 bg-primary rounded-full"></div>
-              File 1: {fileNames[0]}
-            </span>
-            <span className="flex items-center gap-1">
-              <div className="w-3 h-3 bg-accent rounded-full"></div>
-              File 2: {fileNames[1]}
-            </span>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <FileText className="h-5 w-5 text-primary" />
+              Comparison Results ({documents.length} documents)
+            </CardTitle>
+            {actions}
           </div>
+          <p className="text-sm text-muted-foreground">
+            Cells are compared with the baseline document: {documents[baseline].fileName}
+          </p>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={statusFilter}
+            onValueChange={(value) => setStatusFilter((value || 'all') as StatusFilter)}
+            className="flex-wrap justify-start pt-2"
+          >
+            <ToggleGroupItem value="all">All ({rows.length})</ToggleGroupItem>
+            <ToggleGroupItem value="changes">Changes ({countOf(DIFFERENCE_STATUSES)})</ToggleGroupItem>
+            {(Object.keys(STATUS_DISPLAY) as ComparisonStatus[])
+              .filter((status) => countOf([status]) > 0)
+              .map((status) => (
+                <ToggleGroupItem key={status} value={status} title={STATUS_DISPLAY[status].title}>
+                  {STATUS_DISPLAY[status].label} ({countOf([status])})
+                </ToggleGroupItem>
+              ))}
+          </ToggleGroup>
         </CardHeader>
         <CardContent>
           <Table>
             <TableHeader>
               <TableRow className="border-border">
-                <TableHead className="font-semibold text-foreground">Field</TableHead>
-                <TableHead className="font-semibold text-foreground">File 1</TableHead>
-                <TableHead className="font-semibold text-foreground">File 2</TableHead>
-                <TableHead className="font-semibold text-foreground w-24">Status</TableHead>
+                <TableHead className="font-semibold text-foreground min-w-40">Field</TableHead>
+                {documents.map((doc, i) => (
+                  <TableHead key={i} className="font-semibold text-foreground align-top py-2 min-w-40">
+                    <span className="block truncate max-w-48" title={doc.fileName}>{doc.fileName}</span>
+                    <span className="block text-xs font-normal text-muted-foreground">{doc.payerPlan}</span>
+                    {i === baseline ? (
+                      <Badge variant="secondary" className="mt-1 bg-primary/10 text-primary">Baseline</Badge>
+                    ) : onBaselineChange && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onBaselineChange(i)}
+                        className="mt-1 h-6 px-2 text-xs text-muted-foreground"
+                      >
+                        Set as baseline
+                      </Button>
+                    )}
+                  </TableHead>
+                ))}
               </TableRow>
             </TableHeader>
             <TableBody>
-              {comparisonData.map((item) => (
-                <TableRow 
-                  key={item.field} 
-                  className={cn(
-                    "border-border hover:bg-muted/50",
-                    item.status === 'different' && "bg-diff-changed",
-                    item.status === 'missing' && "bg-muted/30"
-                  )}
-                >
-                  <TableCell className="font-medium text-foreground">{item.field}</TableCell>
-                  <TableCell className="text-muted-foreground">
-                    {item.file1Value || <span className="text-muted-foreground italic">Not found</span>}
-                  </TableCell>
-                  <TableCell className="text-muted-foreground">
-                    {item.file2Value || <span className="text-muted-foreground italic">Not found</span>}
-                  </TableCell>
-                  <TableCell>
-                    {item.status === 'same' && (
-                      <Badge variant="secondary" className="bg-success-light text-success">
-                        <CheckCircle className="h-3 w-3 mr-1" />
-                        Same
-                      </Badge>
-                    )}
-                    {item.status === 'different' && (
-                      <Badge variant="secondary" className="bg-warning-light text-warning">
-                        <AlertCircle className="h-3 w-3 mr-1" />
-                        Different
-                      </Badge>
-                    )}
-                    {item.status === 'missing' && (
-                      <Badge variant="secondary" className="bg-muted text-muted-foreground">
-                        <XCircle className="h-3 w-3 mr-1" />
-                        Missing
-                      </Badge>
-                    )}
+              {visibleRows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={documents.length + 1} className="text-center text-sm text-muted-foreground italic">
+                    No fields with this status
                   </TableCell>
                 </TableRow>
+              )}
+              {visibleRows.map((row) => (
+                <Fragment key={row.field}>
+                  <TableRow {...rowProps(row.field)}>
+                    <TableCell className="font-medium text-foreground">
+                      <ExpandToggle open={expanded.has(row.field)} onClick={() => toggle(row.field)} />
+                      {row.label}
+                    </TableCell>
+                    {row.cells.map((cell, i) => {
+                      const key = cellFieldKey(matrix, row.field, i);
+                      return (
+                        <TableCell
+                          key={i}
+                          className={cn(
+                            "text-muted-foreground align-top",
+                            i !== baseline && STATUS_DISPLAY[cell.status].cellClass
+                          )}
+                        >
+                          <EditableValue
+                            value={cell.value}
+                            label={row.label}
+                            onSave={onCorrect && key ? (corrected) => onCorrect(key, corrected, i) : undefined}
+                          >
+                            {cell.value || <NotFound source={cell.source} />}
+                            {cell.value && <ConfidenceLabel value={cell.confidence} />}
+                          </EditableValue>
+                          <SourceLabel source={cell.source} />
+                          <div className="flex flex-wrap gap-1 pt-1">
+                            {i !== baseline && !['same', 'missing', 'not_applicable'].includes(cell.status) && (
+                              <StatusBadge status={cell.status} />
+                            )}
+                            {needsReview(cell.confidence, reviewThreshold) && <NeedsReviewBadge />}
+                            {key && <CorrectedBadge history={fieldHistory(matrix.results[i], key)} />}
+                          </div>
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                  {expanded.has(row.field) && (
+                    <TableRow className="border-border bg-muted/20 hover:bg-muted/20">
+                      <TableCell />
+                      {row.cells.map((cell, i) => {
+                        const key = cellFieldKey(matrix, row.field, i);
+                        return (
+                          <TableCell key={i}>
+                            <EvidenceDetails evidence={cell.evidence} />
+                            {key && <CorrectionHistory history={fieldHistory(matrix.results[i], key)} />}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  )}
+                </Fragment>
               ))}
             </TableBody>
+            <TableFooter>
+              <TableRow className="border-border">
+                <TableCell className="font-semibold text-foreground">Differences from baseline</TableCell>
+                {differences.map((count, i) => (
+                  <TableCell key={i} className="font-semibold text-foreground">
+                    {i === baseline ? '—' : count}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableFooter>
           </Table>
         </CardContent>
       </Card>
@@ -0,0 +1,56 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, XCircle } from "lucide-react";
+import type { ExtractionErrorKind, FileFailure } from "@/services/errors";
+
+interface ExtractionFailuresProps {
+  failures: FileFailure[];
+}
+
+const KIND_LABELS: Record<ExtractionErrorKind, string> = {
+  upload: "Upload failed",
+  run_failed: "Run failed",
+  parse: "Unreadable response",
+  auth: "Authentication",
+  rate_limit: "Rate limited",
+  unknown: "Error",
+};
+
+const KIND_HINTS: Record<ExtractionErrorKind, string> = {
+  upload: "The PDF could not be sent for processing. Check the file and your connection.",
+  run_failed: "The extraction run did not complete. Try again in a moment.",
+  parse: "The model did not return usable data for this document. Try again.",
+  auth: "The extraction service's provider key is missing or was rejected. Ask whoever runs the service to check it.",
+  rate_limit: "Too many requests right now. Wait a little and try again.",
+  unknown: "Something went wrong while processing this document.",
+};
+
+export const ExtractionFailures = ({ failures }: ExtractionFailuresProps) => {
+  return (
+    <Card className="bg-card shadow-md border-destructive/50">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <AlertCircle className="h-5 w-5 text-destructive" />
+          Extraction Failed
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {failures.map(({ fileName, error }) => (
+          <div key={fileName} className="rounded-md border border-border bg-destructive-light/40 p-3 space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium text-foreground flex items-center gap-2">
+                <XCircle className="h-4 w-4 text-destructive" />
+                {fileName}
+              </span>
+              <Badge variant="secondary" className="bg-destructive-light text-destructive">
+                {KIND_LABELS[error.kind]}
+              </Badge>
+            </div>
+            <p className="text-sm text-muted-foreground">{KIND_HINTS[error.kind]}</p>
+            <p className="text-xs text-muted-foreground break-words">{error.message}</p>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,19 +1,38 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, type ReactNode } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
-import { Upload, FileText, X, GitCompare } from "lucide-react";
+import { Upload, FileText, X, GitCompare, Layers } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { MAX_COMPARE_DOCUMENTS } from "@/constants/fields";
+import { MAX_BATCH_FILES } from "@/services/batch";
+
+export type UploadMode = 'single' | 'compare' | 'batch';
+
+const MAX_FILES: Record<UploadMode, number> = {
+  single: 1,
+  compare: MAX_COMPARE_DOCUMENTS,
+  batch: MAX_BATCH_FILES,
+};
 
 interface PDFUploaderProps {
-  mode: 'single' | 'compare';
-  onModeChange: (mode: 'single' | 'compare') => void;
+  mode: UploadMode;
+  onModeChange: (mode: UploadMode) => void;
   onFilesChange: (files: File[]) => void;
   files: File[];
   isLoading?: boolean;
+  // Extra per-file controls, e.g. the document's payer plan
+  renderFileDetails?: (file: File, index: number) => ReactNode;
 }
 
-export const PDFUploader = ({ mode, onModeChange, onFilesChange, files, isLoading }: PDFUploaderProps) => {
+export const PDFUploader = ({
+  mode,
+  onModeChange,
+  onFilesChange,
+  files,
+  isLoading,
+  renderFileDetails,
+}: PDFUploaderProps) => {
   const [dragActive, setDragActive] = useState(false);
 
   const handleDrag = useCallback((e: React.DragEvent) => {
@@ -26,6 +45,20 @@ export const PDFUploader = ({ mode, onModeChange, onFilesChange, files, isLoadin
     }
   }, []);
 
+  const maxFiles = MAX_FILES[mode];
+
+  // Compare and batch modes add to the list so documents can be picked in several rounds
+  const withAdded = useCallback(
+    (added: File[]) => (mode === 'single' ? added : [...files, ...added]).slice(0, maxFiles),
+    [mode, files, maxFiles]
+  );
+
+  // Drop files the new mode cannot take instead of failing later
+  const changeMode = (next: UploadMode) => {
+    onModeChange(next);
+    if (files.length > MAX_FILES[next]) onFilesChange(files.slice(0, MAX_FILES[next]));
+  };
+
   const isPdfLike = (file: File) =>
     file.type.toLowerCase().includes('pdf') || /\.pdf$/i.test(file.name);
 
@@ -37,35 +70,34 @@ export const PDFUploader = ({ mode, onModeChange, onFilesChange, files, isLoadin
     const droppedFiles = Array.from(e.dataTransfer.files).filter(isPdfLike);
 
     if (droppedFiles.length > 0) {
-      const maxFiles = mode === 'single' ? 1 : 2;
-      onFilesChange(droppedFiles.slice(0, maxFiles));
+      onFilesChange(withAdded(droppedFiles));
     }
-  }, [mode, onFilesChange]);
+  }, [withAdded, onFilesChange]);
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = Array.from(e.target.files || []).filter(isPdfLike);
 
     if (selectedFiles.length > 0) {
-      const maxFiles = mode === 'single' ? 1 : 2;
-      onFilesChange(selectedFiles.slice(0, maxFiles));
+      onFilesChange(withAdded(selectedFiles));
     }
-  }, [mode, onFilesChange]);
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+  }, [withAdded, onFilesChange]);
 
   const removeFile = useCallback((index: number) => {
     const newFiles = files.filter((_, i) => i !== index);
     onFilesChange(newFiles);
   }, [files, onFilesChange]);
 
-  const maxFiles = mode === 'single' ? 1 : 2;
   const canAddMore = files.length < maxFiles;
 
   return (
     <div className="space-y-4">
       {/* Mode Toggle */}
-      <div className="flex gap-2">
+      <div className="flex flex-wrap gap-2">
         <Button
           variant={mode === 'single' ? 'default' : 'secondary'}
-          onClick={() => onModeChange('single')}
+          onClick={() => changeMode('single')}
           className="flex items-center gap-2"
           disabled={isLoading}
         >
@@ -74,13 +106,22 @@ export const PDFUploader = ({ mode, onModeChange, onFilesChange, files, isLoadin
         </Button>
         <Button
           variant={mode === 'compare' ? 'default' : 'secondary'}
-          onClick={() => onModeChange('compare')}
+          onClick={() => changeMode('compare')}
           className="flex items-center gap-2"
           disabled={isLoading}
         >
           <GitCompare className="h-4 w-4" />
           Compare PDFs
         </Button>
+        <Button
+          variant={mode === 'batch' ? 'default' : 'secondary'}
+          onClick={() => changeMode('batch')}
+          className="flex items-center gap-2"
+          disabled={isLoading}
+        >
+          <Layers className="h-4 w-4" />
+          Batch
+        </Button>
       </div>
 
       {/* Upload Area */}
@@ -102,7 +143,7 @@ export const PDFUploader = ({ mode, onModeChange, onFilesChange, files, isLoadin
             <input
               type="file"
               accept=".pdf"
-              multiple={mode === 'compare'}
+              multiple={mode !== 'single'}
               onChange={handleFileInput}
               className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
               disabled={isLoading}
@@ -116,7 +157,9 @@ export const PDFUploader = ({ mode, onModeChange, onFilesChange, files, isLoadin
                   Drop PDF files here or click to browse
                 </p>
                 <p className="text-xs text-muted-foreground mt-1">
-                  {mode === 'single' ? 'Upload 1 PDF file' : `Upload up to 2 PDF files for comparison`}
+                  {mode === 'single' && 'Upload 1 PDF file'}
+                  {mode === 'compare' && `Upload 2 to ${MAX_COMPARE_DOCUMENTS} PDF files for comparison`}
+                  {mode === 'batch' && `Drop a whole folder of schedules, up to ${MAX_BATCH_FILES} PDF files`}
                 </p>
               </div>
             </div>
@@ -130,7 +173,7 @@ export const PDFUploader = ({ mode, onModeChange, onFilesChange, files, isLoadin
           <Label className="text-sm font-medium text-foreground">
             Uploaded Files ({files.length}/{maxFiles})
           </Label>
-          <div className="space-y-2">
+          <div className="space-y-2 max-h-96 overflow-y-auto">
             {files.map((file, index) => (
               <Card key={`${file.name}-${index}`} className="p-3 bg-card shadow-sm">
                 <div className="flex items-center justify-between">
@@ -157,6 +200,7 @@ export const PDFUploader = ({ mode, onModeChange, onFilesChange, files, isLoadin
                     <X className="h-4 w-4" />
                   </Button>
                 </div>
+                {renderFileDetails && <div className="pt-2">{renderFileDetails(file, index)}</div>}
               </Card>
             ))}
           </div>
@@ -5,16 +5,23 @@ import { PAYER_PLANS, type PayerPlan } from "@/constants/fields";
 interface PayerPlanSelectorProps {
   value: PayerPlan;
   onValueChange: (value: PayerPlan) => void;
+  id?: string;
+  label?: string;
 }
 
-export const PayerPlanSelector = ({ value, onValueChange }: PayerPlanSelectorProps) => {
+export const PayerPlanSelector = ({
+  value,
+  onValueChange,
+  id = "payer-plan",
+  label = "Payer Plan",
+}: PayerPlanSelectorProps) => {
   return (
     <div className="space-y-2">
-      <Label htmlFor="payer-plan" className="text-sm font-medium text-foreground">
-        Payer Plan
+      <Label htmlFor={id} className="text-sm font-medium text-foreground">
+        {label}
       </Label>
       <Select value={value} onValueChange={onValueChange}>
-        <SelectTrigger id="payer-plan" className="w-full bg-card border-border shadow-sm">
+        <SelectTrigger id={id} className="w-full bg-card border-border shadow-sm">
           <SelectValue placeholder="Select payer plan" />
         </SelectTrigger>
         <SelectContent className="bg-popover border-border shadow-lg">
@@ -0,0 +1,168 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  getDocument,
+  VerbosityLevel,
+  type PDFDocumentProxy,
+  type RenderTask,
+} from "pdfjs-dist/legacy/build/pdf.mjs";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight, FileText } from "lucide-react";
+import type { FieldEvidence } from "@/constants/fields";
+
+interface PdfViewerProps {
+  file: File;
+  // Where the selected field's value was read; the viewer jumps to its page and highlights it
+  target?: FieldEvidence | null;
+  title?: string;
+}
+
+// Extra room around a highlighted value, in PDF points
+const HIGHLIGHT_PADDING = 3;
+
+export const PdfViewer = ({ file, target, title }: PdfViewerProps) => {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [scale, setScale] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    setPdf(null);
+    setError(null);
+    setPageNumber(1);
+
+    file
+      .arrayBuffer()
+      .then((buffer) =>
+        getDocument({ data: new Uint8Array(buffer), isEvalSupported: false, verbosity: VerbosityLevel.ERRORS }).promise
+      )
+      .then((doc) => {
+        loaded = doc;
+        if (cancelled) doc.destroy();
+        else setPdf(doc);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [file]);
+
+  useEffect(() => {
+    if (target?.page) setPageNumber(target.page);
+  }, [target]);
+
+  useEffect(() => {
+    if (!pdf || !canvasRef.current || !containerRef.current) return;
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+
+    pdf.getPage(Math.min(pageNumber, pdf.numPages)).then((page) => {
+      if (cancelled || !canvasRef.current || !containerRef.current) return;
+      // Fit the page to the panel width
+      const fitScale = containerRef.current.clientWidth / page.getViewport({ scale: 1 }).width;
+      const viewport = page.getViewport({ scale: fitScale * (window.devicePixelRatio || 1) });
+      const canvas = canvasRef.current;
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      canvas.style.width = `${viewport.width / (window.devicePixelRatio || 1)}px`;
+      canvas.style.height = `${viewport.height / (window.devicePixelRatio || 1)}px`;
+      setScale(fitScale);
+
+      const context = canvas.getContext("2d");
+      if (!context) return;
+      renderTask = page.render({ canvasContext: context, viewport });
+      renderTask.promise.catch(() => {
+        // Cancelled by a newer render
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber]);
+
+  const bbox = target?.bbox && target.page === pageNumber ? target.bbox : null;
+
+  // Scroll only the viewer, not the page around it
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !bbox) return;
+    container.scrollTo({ top: Math.max(0, bbox.y * scale - container.clientHeight / 2), behavior: "smooth" });
+  }, [bbox, scale]);
+
+  const numPages = pdf?.numPages ?? 0;
+
+  return (
+    <Card className="bg-card shadow-md">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-base min-w-0">
+            <FileText className="h-4 w-4 text-primary shrink-0" />
+            <span className="truncate" title={file.name}>{title ?? file.name}</span>
+          </CardTitle>
+          <div className="flex items-center gap-1 text-sm text-muted-foreground shrink-0">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={() => setPageNumber((p) => Math.max(1, p - 1))}
+              disabled={pageNumber <= 1}
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            {numPages > 0 ? `${pageNumber} / ${numPages}` : '–'}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={() => setPageNumber((p) => Math.min(numPages, p + 1))}
+              disabled={pageNumber >= numPages}
+              aria-label="Next page"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        {target && !target.bbox && (
+          <p className="text-xs text-muted-foreground">
+            {target.page
+              ? 'The exact position of this value is unknown; showing its page.'
+              : 'No page recorded for this value.'}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div ref={containerRef} className="relative max-h-[70vh] overflow-auto rounded-md border border-border">
+          {error ? (
+            <p className="p-4 text-sm text-destructive">Could not display this PDF: {error}</p>
+          ) : (
+            <>
+              <canvas ref={canvasRef} className="block" />
+              {bbox && (
+                <div
+                  className="absolute rounded-sm border-2 border-warning bg-warning/20 pointer-events-none"
+                  style={{
+                    left: (bbox.x - HIGHLIGHT_PADDING) * scale,
+                    top: (bbox.y - HIGHLIGHT_PADDING) * scale,
+                    width: (bbox.width + 2 * HIGHLIGHT_PADDING) * scale,
+                    height: (bbox.height + 2 * HIGHLIGHT_PADDING) * scale,
+                  }}
+                />
+              )}
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,59 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ShieldAlert } from "lucide-react";
+import type { FieldEvidence } from "@/constants/fields";
+
+export interface ReviewItem {
+  field: string;
+  value: string;
+  confidence: number;
+  evidence?: FieldEvidence | null;
+  fileName?: string;
+}
+
+interface ReviewQueueProps {
+  items: ReviewItem[];
+  threshold: number;
+}
+
+export const ReviewQueue = ({ items, threshold }: ReviewQueueProps) => {
+  if (items.length === 0) return null;
+
+  const sorted = [...items].sort((a, b) => a.confidence - b.confidence);
+
+  return (
+    <Card className="bg-card shadow-md border-warning/50">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ShieldAlert className="h-5 w-5 text-warning" />
+          Needs Review ({items.length})
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Values below {Math.round(threshold * 100)}% confidence. Verify these against the source before use.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {sorted.map((item) => (
+          <div
+            key={`${item.fileName ?? ''}-${item.field}`}
+            className="flex items-start justify-between gap-3 rounded-md border border-border p-3"
+          >
+            <div className="space-y-1 min-w-0">
+              <p className="text-sm font-medium text-foreground">
+                {item.field}
+                {item.fileName && <span className="text-muted-foreground font-normal"> · {item.fileName}</span>}
+              </p>
+              <p className="text-sm text-muted-foreground break-words">{item.value}</p>
+              {item.evidence?.page && (
+                <p className="text-xs text-muted-foreground">Page {item.evidence.page}</p>
+              )}
+            </div>
+            <Badge variant="secondary" className="bg-warning-light text-warning shrink-0">
+              {Math.round(item.confidence * 100)}%
+            </Badge>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
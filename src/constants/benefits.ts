@@ -0,0 +1,52 @@
+import { PAYER_PLANS, type PayerPlan, type ValueKind } from "@/constants/fields";
+
+// Payer-neutral benefit taxonomy. Each payer's table of benefits names and splits these
+// differently; BENEFIT_MAPPINGS says which of its fields hold each benefit so that a QLM and an
+// ALKOOT policy can be compared side by side.
+export interface BenefitDefinition {
+  key: string;
+  label: string;
+  // Kind the mapped values are normalized as when compared across payers
+  kind: ValueKind;
+}
+
+export const CANONICAL_BENEFITS: BenefitDefinition[] = [
+  { key: "policy_period", label: "Policy period", kind: "date_range" },
+  { key: "provider_coinsurance", label: "Provider-specific co-insurance (Al Ahli Hospital)", kind: "percentage" },
+  { key: "inpatient_deductible", label: "Inpatient deductible", kind: "currency" },
+  { key: "inpatient_coinsurance", label: "Inpatient co-insurance", kind: "percentage" },
+  { key: "outpatient_consultation_deductible", label: "Outpatient consultation deductible", kind: "currency" },
+  { key: "vaccination", label: "Vaccination", kind: "coverage" },
+  { key: "psychiatric", label: "Psychiatric treatment", kind: "coverage" },
+  { key: "maternity", label: "Maternity", kind: "coverage" },
+  { key: "dental", label: "Dental", kind: "coverage" },
+  { key: "optical", label: "Optical", kind: "coverage" },
+];
+
+// Benefit key -> FieldDefinition keys holding it, in reading order. Several fields are joined
+// into one value (ALKOOT prints the policy period as separate effective and expiry dates).
+// A benefit missing from a payer's mapping is not part of that payer's schedule.
+export const BENEFIT_MAPPINGS: Record<PayerPlan, Partial<Record<string, string[]>>> = {
+  [PAYER_PLANS.QLM]: {
+    policy_period: ["period_of_insurance"],
+    provider_coinsurance: ["al_ahli_eligible_expenses"],
+    inpatient_deductible: ["inpatient_deductible"],
+    outpatient_consultation_deductible: ["outpatient_consultation_deductible"],
+    vaccination: ["child_vaccination"],
+    psychiatric: ["psychiatric_treatment"],
+    maternity: ["maternity_copayment"],
+    dental: ["dental_copayment"],
+    optical: ["optical_copayment"],
+  },
+  [PAYER_PLANS.ALKOOT]: {
+    policy_period: ["effective_date", "expiry_date"],
+    provider_coinsurance: ["al_ahli_provider_coinsurance"],
+    inpatient_coinsurance: ["inpatient_coinsurance"],
+    outpatient_consultation_deductible: ["consultation_deductible"],
+    vaccination: ["vaccination_immunization"],
+    psychiatric: ["psychiatric_treatment"],
+    maternity: ["pregnancy_childbirth"],
+    dental: ["dental_benefit"],
+    optical: ["optical_benefit"],
+  },
+};
@@ -5,48 +5,212 @@ export const PAYER_PLANS = {
 
 export type PayerPlan = keyof typeof PAYER_PLANS;
 
-export const QLM_FIELDS = [
-  "Insured", 
-  "Policy No",
-  "Period of Insurance", 
-  "Plan", 
-  "For Eligible Medical Expenses at Al Ahli Hospital",
-  "Inpatient Deductible", 
-  "Deductible per each outpatient consultation",
-  "Vaccination of children", 
-  "Psychiatric Treatment", 
-  "Dental Copayment",
-  "Maternity Copayment", 
-  "Optical Copayment"
+// What kind of value a field holds; drives prompting, validation and display
+export type ValueKind =
+  | 'percentage'   // "20%"
+  | 'currency'     // "QAR 100"
+  | 'date'         // "01/01/2024"
+  | 'date_range'   // "01/01/2024 to 31/12/2024"
+  | 'coverage'     // "Covered", "Not covered", "Covered up to QAR 5,000"
+  | 'text';
+
+export const VALUE_KIND_LABELS: Record<ValueKind, string> = {
+  percentage: 'Percentage',
+  currency: 'Amount',
+  date: 'Date',
+  date_range: 'Date range',
+  coverage: 'Covered / not covered',
+  text: 'Text',
+};
+
+export interface FieldDefinition {
+  // Stable machine key: JSON key in model output and ExtractedData
+  key: string;
+  // Label as printed in the payer's table of benefits
+  label: string;
+  kind: ValueKind;
+  // Other labels the same value appears under
+  synonyms?: string[];
+  // Extraction hint passed to the model
+  description?: string;
+  required?: boolean;
+}
+
+// Bump whenever field keys, kinds or the field lists change
+export const FIELD_SCHEMA_VERSION = "2";
+
+export const QLM_FIELDS: FieldDefinition[] = [
+  { key: "insured", label: "Insured", kind: "text", synonyms: ["Policyholder", "Insured Name"], required: true },
+  { key: "policy_no", label: "Policy No", kind: "text", synonyms: ["Policy Number", "Policy No."], required: true },
+  {
+    key: "period_of_insurance",
+    label: "Period of Insurance",
+    kind: "date_range",
+    synonyms: ["Policy Period", "Period of Cover"],
+    description: "Start and end date of cover",
+    required: true,
+  },
+  { key: "plan", label: "Plan", kind: "text", synonyms: ["Plan Name"], required: true },
+  {
+    key: "al_ahli_eligible_expenses",
+    label: "For Eligible Medical Expenses at Al Ahli Hospital",
+    kind: "percentage",
+    description: "Co-insurance or copayment applied to eligible expenses at Al Ahli Hospital",
+  },
+  {
+    key: "inpatient_deductible",
+    label: "Inpatient Deductible",
+    kind: "currency",
+    synonyms: ["In-patient Deductible"],
+  },
+  {
+    key: "outpatient_consultation_deductible",
+    label: "Deductible per each outpatient consultation",
+    kind: "currency",
+    synonyms: ["Outpatient Deductible", "Deductible per outpatient consultation"],
+  },
+  {
+    key: "child_vaccination",
+    label: "Vaccination of children",
+    kind: "coverage",
+    synonyms: ["Childhood Vaccination", "Vaccinations"],
+  },
+  { key: "psychiatric_treatment", label: "Psychiatric Treatment", kind: "coverage" },
+  { key: "dental_copayment", label: "Dental Copayment", kind: "percentage", synonyms: ["Dental Co-payment"] },
+  { key: "maternity_copayment", label: "Maternity Copayment", kind: "percentage", synonyms: ["Maternity Co-payment"] },
+  { key: "optical_copayment", label: "Optical Copayment", kind: "percentage", synonyms: ["Optical Co-payment"] },
 ];
 
-export const ALKOOT_FIELDS = [
-  "Policy Number", 
-  "Category", 
-  "Effective Date",
-  "Expiry Date", 
-  "Provider-specific co-insurance at Al Ahli Hospital",
-  "Co-insurance on all inpatient treatment", 
-  "Deductible on consultation",
-  "Vaccination & Immunization",
-  "Psychiatric treatment & Psychotherapy",
-  "Pregnancy & Childbirth", 
-  "Dental Benefit", 
-  "Optical Benefit"
+export const ALKOOT_FIELDS: FieldDefinition[] = [
+  { key: "policy_number", label: "Policy Number", kind: "text", synonyms: ["Policy No"], required: true },
+  { key: "category", label: "Category", kind: "text", synonyms: ["Plan Category"], required: true },
+  { key: "effective_date", label: "Effective Date", kind: "date", synonyms: ["Inception Date", "Start Date"], required: true },
+  { key: "expiry_date", label: "Expiry Date", kind: "date", synonyms: ["Expiration Date", "End Date"], required: true },
+  {
+    key: "al_ahli_provider_coinsurance",
+    label: "Provider-specific co-insurance at Al Ahli Hospital",
+    kind: "percentage",
+    description: "Co-insurance that applies only at Al Ahli Hospital",
+  },
+  {
+    key: "inpatient_coinsurance",
+    label: "Co-insurance on all inpatient treatment",
+    kind: "percentage",
+    synonyms: ["Inpatient Co-insurance"],
+  },
+  {
+    key: "consultation_deductible",
+    label: "Deductible on consultation",
+    kind: "currency",
+    synonyms: ["Consultation Deductible"],
+  },
+  { key: "vaccination_immunization", label: "Vaccination & Immunization", kind: "coverage" },
+  { key: "psychiatric_treatment", label: "Psychiatric treatment & Psychotherapy", kind: "coverage" },
+  {
+    key: "pregnancy_childbirth",
+    label: "Pregnancy & Childbirth",
+    kind: "coverage",
+    synonyms: ["Maternity"],
+    description: "Maternity cover including any limit or co-insurance",
+  },
+  { key: "dental_benefit", label: "Dental Benefit", kind: "coverage", synonyms: ["Dental"] },
+  { key: "optical_benefit", label: "Optical Benefit", kind: "coverage", synonyms: ["Optical"] },
 ];
 
-export const FIELD_MAPPINGS = {
+export const FIELD_MAPPINGS: Record<PayerPlan, FieldDefinition[]> = {
   [PAYER_PLANS.QLM]: QLM_FIELDS,
   [PAYER_PLANS.ALKOOT]: ALKOOT_FIELDS
 };
 
+// Keyed by FieldDefinition.key
 export interface ExtractedData {
   [key: string]: string | null;
 }
 
-export interface ComparisonResult {
+// PDF points at scale 1, top-left origin
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Where a value was read from, so reviewers can verify it against the source
+export interface FieldEvidence {
+  page: number | null;
+  snippet: string | null;
+  bbox?: BoundingBox | null;
+}
+
+// A reviewer's change to one extracted value
+export interface FieldCorrection {
   field: string;
-  file1Value: string | null;
-  file2Value: string | null;
-  status: 'same' | 'different' | 'missing';
+  // Value before this change; for a field's first correction, the model's own value
+  previous: string | null;
+  value: string | null;
+  author: string;
+  // ISO timestamp
+  correctedAt: string;
+}
+
+export interface ExtractionResult {
+  payerPlan: PayerPlan;
+  schemaVersion: string;
+  // ISO timestamp
+  extractedAt: string;
+  // Latest values, corrections included
+  data: ExtractedData;
+  evidence: { [key: string]: FieldEvidence | null };
+  // 0..1 per found field; null where no value was extracted
+  confidence: { [key: string]: number | null };
+  // Oldest first
+  corrections: FieldCorrection[];
+}
+
+// Per cell, relative to the baseline document: same: identical text; equivalent: same value after
+// normalization ("QAR 100" vs "100 QAR"); conflicting: both present with different values;
+// added/removed: only in this document / only in the baseline; missing: in neither;
+// not_applicable: this payer's or the baseline payer's schedule has no such benefit
+export type ComparisonStatus =
+  | 'same'
+  | 'equivalent'
+  | 'conflicting'
+  | 'added'
+  | 'removed'
+  | 'missing'
+  | 'not_applicable';
+
+export interface ComparedDocument {
+  fileName: string;
+  payerPlan: PayerPlan;
+}
+
+export interface ComparisonCell {
+  value: string | null;
+  evidence?: FieldEvidence | null;
+  confidence?: number | null;
+  // Cross-payer comparisons: label of the payer field(s) the value was read from; null when that
+  // payer's schedule has no such benefit
+  source?: string | null;
+  status: ComparisonStatus;
+}
+
+export interface ComparisonRow {
+  // FieldDefinition.key, or the canonical benefit key when payers are mixed
+  field: string;
+  label: string;
+  // One per document, in document order
+  cells: ComparisonCell[];
+}
+
+// A comparison takes 2 to this many documents
+export const MAX_COMPARE_DOCUMENTS = 10;
+
+// Documents are columns, fields rows; every cell is compared against the baseline column
+export interface ComparisonMatrix {
+  documents: ComparedDocument[];
+  // Kept so the baseline can be changed without extracting again
+  results: ExtractionResult[];
+  baseline: number;
+  rows: ComparisonRow[];
 }
@@ -0,0 +1,5 @@
+// Hex SHA-256 of a file's bytes: identifies a document regardless of its name
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,5 @@
+// Points pdf.js at its bundled worker; only needed in the browser (Node uses a fake worker).
+import { GlobalWorkerOptions } from "pdfjs-dist/legacy/build/pdf.mjs";
+import workerSrc from "pdfjs-dist/legacy/build/pdf.worker.min.mjs?url";
+
+GlobalWorkerOptions.workerSrc = workerSrc;
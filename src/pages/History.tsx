@@ -0,0 +1,255 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, History as HistoryIcon, Search, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { FIELD_SCHEMA_VERSION, PAYER_PLANS } from "@/constants/fields";
+import { countDifferences } from "@/services/compare";
+import { clearHistory, deleteRun, listRuns, type HistoryRun } from "@/services/history";
+
+type KindFilter = HistoryRun["kind"] | 'all';
+
+const summarize = (run: HistoryRun) => {
+  if (run.kind === 'single') {
+    const values = Object.values(run.result.data);
+    return `${values.filter(Boolean).length} of ${values.length} fields found`;
+  }
+  const differences = countDifferences(run.matrix).reduce((a, b) => a + b, 0);
+  return `${differences} difference${differences === 1 ? '' : 's'} from baseline`;
+};
+
+const formatDuration = (ms: number) => (ms < 60_000 ? `${(ms / 1000).toFixed(1)} s` : `${Math.round(ms / 60_000)} min`);
+
+const History = () => {
+  const [runs, setRuns] = useState<HistoryRun[] | null>(null);
+  const [search, setSearch] = useState('');
+  const [kind, setKind] = useState<KindFilter>('all');
+  const [plan, setPlan] = useState<string>('all');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    listRuns()
+      .then(setRuns)
+      .catch((error) => {
+        console.error('History error:', error);
+        setRuns([]);
+        toast({
+          title: "History unavailable",
+          description: "Past runs could not be read from this browser's storage.",
+          variant: "destructive",
+        });
+      });
+  }, [toast]);
+
+  const visibleRuns = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return (runs ?? []).filter(
+      (run) =>
+        (kind === 'all' || run.kind === kind) &&
+        (plan === 'all' || run.files.some((f) => f.payerPlan === plan)) &&
+        (!query || run.files.some((f) => f.name.toLowerCase().includes(query) || f.sha256.startsWith(query)))
+    );
+  }, [runs, search, kind, plan]);
+
+  const showStorageError = (title: string, error: unknown) => {
+    console.error('History error:', error);
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "The browser storage could not be updated.",
+      variant: "destructive",
+    });
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteRun(id);
+      setRuns((prev) => prev && prev.filter((run) => run.id !== id));
+    } catch (error) {
+      showStorageError("Could not delete the run", error);
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearHistory();
+      setRuns([]);
+    } catch (error) {
+      showStorageError("Could not clear the history", error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-surface">
+      <div className="container mx-auto px-4 py-8 max-w-6xl space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="text-2xl font-bold text-foreground flex items-center gap-3">
+            <HistoryIcon className="h-6 w-6 text-primary" />
+            Extraction History
+          </h1>
+          <Button variant="secondary" size="sm" asChild>
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to extractor
+            </Link>
+          </Button>
+        </div>
+
+        <Card className="bg-card shadow-md">
+          <CardHeader className="pb-4 space-y-4">
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle className="text-lg">
+                Past runs {runs && `(${visibleRuns.length} of ${runs.length})`}
+              </CardTitle>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" size="sm" disabled={!runs?.length} className="text-muted-foreground">
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Clear history
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Clear the whole history?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      All stored results and corrections are deleted from this browser. This cannot be undone.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleClear}>Clear history</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  placeholder="Search file name or SHA-256"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-9 bg-card border-border shadow-sm"
+                  aria-label="Search runs"
+                />
+              </div>
+              <Select value={kind} onValueChange={(value) => setKind(value as KindFilter)}>
+                <SelectTrigger className="bg-card border-border shadow-sm" aria-label="Run type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover border-border shadow-lg">
+                  <SelectItem value="all">All run types</SelectItem>
+                  <SelectItem value="single">Single extractions</SelectItem>
+                  <SelectItem value="compare">Comparisons</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={plan} onValueChange={setPlan}>
+                <SelectTrigger className="bg-card border-border shadow-sm" aria-label="Payer plan">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover border-border shadow-lg">
+                  <SelectItem value="all">All payer plans</SelectItem>
+                  {Object.values(PAYER_PLANS).map((p) => (
+                    <SelectItem key={p} value={p}>{p}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {runs === null ? (
+              <p className="text-sm text-muted-foreground">Loading history...</p>
+            ) : visibleRuns.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">
+                {runs.length === 0 ? 'No runs yet. Results are saved here after each extraction or comparison.' : 'No runs match these filters.'}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-border">
+                    <TableHead className="font-semibold text-foreground">Date</TableHead>
+                    <TableHead className="font-semibold text-foreground">Files</TableHead>
+                    <TableHead className="font-semibold text-foreground">Payer / model</TableHead>
+                    <TableHead className="font-semibold text-foreground">Result</TableHead>
+                    <TableHead className="font-semibold text-foreground">Duration</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRuns.map((run) => (
+                    <TableRow key={run.id} className="border-border hover:bg-muted/50">
+                      <TableCell className="whitespace-nowrap text-foreground align-top">
+                        {new Date(run.createdAt).toLocaleString()}
+                        <span className="block text-xs text-muted-foreground">
+                          {run.kind === 'single' ? 'Extraction' : 'Comparison'}
+                        </span>
+                      </TableCell>
+                      <TableCell className="align-top">
+                        {run.files.map((file) => (
+                          <span
+                            key={file.sha256 + file.name}
+                            className="block truncate max-w-64 text-foreground"
+                            title={`SHA-256 ${file.sha256}`}
+                          >
+                            {file.name}
+                          </span>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground align-top">
+                        {[...new Set(run.files.map((f) => `${f.payerPlan} · ${f.model}`))].map((label) => (
+                          <span key={label} className="block whitespace-nowrap">{label}</span>
+                        ))}
+                        {run.schemaVersion !== FIELD_SCHEMA_VERSION && (
+                          <Badge variant="secondary" className="mt-1 bg-warning-light text-warning" title="Extracted with an older field schema">
+                            Schema v{run.schemaVersion}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground align-top">{summarize(run)}</TableCell>
+                      <TableCell className="text-muted-foreground align-top whitespace-nowrap">
+                        {formatDuration(run.durationMs)}
+                      </TableCell>
+                      <TableCell className="align-top">
+                        <div className="flex justify-end gap-1">
+                          <Button variant="secondary" size="sm" asChild>
+                            <Link to={`/?run=${run.id}`}>Open</Link>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 text-muted-foreground"
+                            onClick={() => handleDelete(run.id)}
+                            aria-label="Delete run"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default History;
@@ -1,28 +1,353 @@
-import { useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { FileText, Zap, ArrowRight } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import { FileText, Zap, ArrowRight, Trash2, History } from "lucide-react";
 import { PayerPlanSelector } from "@/components/PayerPlanSelector";
-import { PDFUploader } from "@/components/PDFUploader";
+import { PDFUploader, type UploadMode } from "@/components/PDFUploader";
+import { BatchResults } from "@/components/BatchResults";
+import { ExportMenu } from "@/components/ExportMenu";
 import { ExtractedDataTable } from "@/components/ExtractedDataTable";
+import { ExtractionFailures } from "@/components/ExtractionFailures";
+import { PdfViewer } from "@/components/PdfViewer";
+import { CacheControls } from "@/components/CacheControls";
+import { ComparisonViewers } from "@/components/ComparisonViewers";
+import { ReviewQueue, type ReviewItem } from "@/components/ReviewQueue";
 import { useToast } from "@/hooks/use-toast";
-import { PAYER_PLANS, FIELD_MAPPINGS, type PayerPlan, type ExtractedData, type ComparisonResult } from "@/constants/fields";
-import { extractDataApi, compareDataApi } from "@/services/extractionApi";
+import {
+  PAYER_PLANS,
+  FIELD_MAPPINGS,
+  FIELD_SCHEMA_VERSION,
+  VALUE_KIND_LABELS,
+  type PayerPlan,
+  type ExtractionResult,
+  type ComparisonMatrix,
+} from "@/constants/fields";
+import { extractDataApi, compareDataApi, purgeOrphanedResourcesApi } from "@/services/extractionApi";
+import { ComparisonFailedError, toExtractionError, type FileFailure } from "@/services/errors";
+import { DEFAULT_REVIEW_THRESHOLD, needsReview } from "@/services/confidence";
+import { buildComparisonMatrix } from "@/services/compare";
+import { applyCorrection, correctMatrix } from "@/services/corrections";
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  batchToRows,
+  queueBatchItems,
+  runExtractionBatch,
+  type BatchItem,
+} from "@/services/batch";
+import { describeFiles, getRun, saveRun, type HistoryFile, type HistoryRun } from "@/services/history";
+import {
+  clearPendingRun,
+  loadPendingRun,
+  resumePendingRun,
+  savePendingRun,
+  type PendingRun,
+  type RunOutcome,
+} from "@/services/pendingRun";
+import { invalidateCachedExtractions, isFromCache, type CachePolicy } from "@/services/extractionCache";
+import { hashFile } from "@/lib/fileHash";
+import { buildExport, downloadFile, toCsv, type ExportFormat, type ExportSource } from "@/services/export";
+
+const REVIEWER_STORAGE_KEY = "payer-plan-compare:reviewer";
 
 const Index = () => {
-  const [openAiKey, setOpenAiKey] = useState<string>("");
   const [payerPlan, setPayerPlan] = useState<PayerPlan>(PAYER_PLANS.QLM);
-  const [uploadMode, setUploadMode] = useState<'single' | 'compare'>('single');
+  // Compare mode: documents of another payer than the selected plan
+  const [planOverrides, setPlanOverrides] = useState<Map<File, PayerPlan>>(new Map());
+  const [uploadMode, setUploadMode] = useState<UploadMode>('single');
   const [files, setFiles] = useState<File[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [extractedData, setExtractedData] = useState<ExtractedData | null>(null);
-  const [comparisonResults, setComparisonResults] = useState<ComparisonResult[] | null>(null);
+  const [extractedData, setExtractedData] = useState<ExtractionResult | null>(null);
+  const [comparison, setComparison] = useState<ComparisonMatrix | null>(null);
+  // The PDFs behind the results on screen, in document order; the upload list may change afterwards
+  const [resultFiles, setResultFiles] = useState<File[]>([]);
+  const [selectedField, setSelectedField] = useState<string | null>(null);
+  // The history entry of the results on screen; kept in the URL so a reload reopens it
+  const [currentRun, setCurrentRun] = useState<HistoryRun | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const runId = searchParams.get('run');
+  // Files to extract again instead of reusing a cached result
+  const [bypassCache, setBypassCache] = useState<Set<File>>(new Set());
+  // Recorded with every manual correction
+  const [reviewer, setReviewer] = useState(() => localStorage.getItem(REVIEWER_STORAGE_KEY) ?? "");
+  const [failures, setFailures] = useState<FileFailure[] | null>(null);
+  const [isPurging, setIsPurging] = useState(false);
+  const [reviewThreshold, setReviewThreshold] = useState(DEFAULT_REVIEW_THRESHOLD);
+  const [batchItems, setBatchItems] = useState<BatchItem[] | null>(null);
+  const [batchConcurrency, setBatchConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
   
   const { toast } = useToast();
 
+  // Reopen a stored run (from the history page or after a reload) without calling the API
+  useEffect(() => {
+    if (!runId || currentRun?.id === runId) return;
+    getRun(runId)
+      .then((run) => {
+        if (!run) {
+          toast({ title: "Run not found", description: "It may have been deleted from the history.", variant: "destructive" });
+          setSearchParams({}, { replace: true });
+          return;
+        }
+        setCurrentRun(run);
+        setFailures(null);
+        setBatchItems(null);
+        setResultFiles([]);
+        setSelectedField(null);
+        setExtractedData(run.kind === 'single' ? run.result : null);
+        setComparison(run.kind === 'compare' ? run.matrix : null);
+        if (run.schemaVersion !== FIELD_SCHEMA_VERSION) {
+          toast({
+            title: "Older field schema",
+            description: `This run was extracted with schema v${run.schemaVersion}; some fields may be missing.`,
+          });
+        }
+      })
+      .catch((error) => console.error('History error:', error));
+  }, [runId, currentRun, setSearchParams, toast]);
+
+  // Keep the stored run in step with corrections and baseline changes
+  useEffect(() => {
+    if (!currentRun) return;
+    const updated: HistoryRun | null =
+      currentRun.kind === 'single'
+        ? extractedData && { ...currentRun, result: extractedData }
+        : comparison && { ...currentRun, matrix: comparison };
+    if (updated) saveRun(updated).catch((error) => console.error('History error:', error));
+  }, [currentRun, extractedData, comparison]);
+
+  const reviewItems = useMemo<ReviewItem[]>(() => {
+    const items: ReviewItem[] = [];
+    if (extractedData) {
+      for (const { key, label } of FIELD_MAPPINGS[extractedData.payerPlan]) {
+        const value = extractedData.data[key];
+        const confidence = extractedData.confidence[key];
+        if (value && needsReview(confidence, reviewThreshold)) {
+          items.push({ field: label, value, confidence, evidence: extractedData.evidence[key] });
+        }
+      }
+    }
+    for (const row of comparison?.rows ?? []) {
+      row.cells.forEach((cell, i) => {
+        if (cell.value && needsReview(cell.confidence, reviewThreshold)) {
+          items.push({
+            field: row.label,
+            value: cell.value,
+            confidence: cell.confidence,
+            evidence: cell.evidence,
+            fileName: comparison.documents[i].fileName,
+          });
+        }
+      });
+    }
+    return items;
+  }, [extractedData, comparison, reviewThreshold]);
+
+  const planFor = (file: File) => planOverrides.get(file) ?? payerPlan;
+
+  const setPlanFor = (file: File, plan: PayerPlan) =>
+    setPlanOverrides((prev) => new Map(prev).set(file, plan));
+
+  const handleBaselineChange = (index: number) =>
+    setComparison((prev) => prev && buildComparisonMatrix(prev.documents, prev.results, index));
+
+  const handleReviewerChange = (name: string) => {
+    setReviewer(name);
+    localStorage.setItem(REVIEWER_STORAGE_KEY, name);
+  };
+
+  const handleCorrect = (field: string, value: string | null, document?: number) => {
+    const author = reviewer.trim();
+    if (!author) {
+      toast({
+        title: "Reviewer name required",
+        description: "Enter your name under Configuration so the correction can be attributed.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (document === undefined) {
+      setExtractedData((prev) => prev && applyCorrection(prev, field, value, author));
+    } else {
+      setComparison((prev) => prev && correctMatrix(prev, document, field, value, author));
+    }
+  };
+
+  const hasCorrections = (extractedData?.corrections.length ?? 0) > 0
+    || (comparison?.results.some((r) => r.corrections.length > 0) ?? false);
+
+  const recordRun = useCallback((historyFiles: HistoryFile[], startedAt: Date, outcome: RunOutcome) => {
+    const run: HistoryRun = {
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      schemaVersion: FIELD_SCHEMA_VERSION,
+      files: historyFiles,
+      ...outcome,
+    };
+    setCurrentRun(run);
+    setSearchParams({ run: run.id }, { replace: true });
+  }, [setSearchParams]);
+
+  // Never leave a previous run's table on screen next to a failure
+  const showFailure = useCallback((error: unknown, fileNames: string[]) => {
+    const fileFailures = error instanceof ComparisonFailedError
+      ? error.failures
+      : fileNames.map((fileName) => ({ fileName, error: toExtractionError(error) }));
+    setFailures(fileFailures);
+    setExtractedData(null);
+    setComparison(null);
+
+    toast({
+      title: "Processing failed",
+      description: fileFailures.length > 1
+        ? `${fileFailures.length} files could not be processed.`
+        : `${fileFailures[0].fileName}: ${fileFailures[0].error.message}`,
+      variant: "destructive",
+    });
+  }, [toast]);
+
+  // A single or compare run cut off by a reload: wait for its jobs on the service again
+  const resumeChecked = useRef(false);
+  useEffect(() => {
+    if (resumeChecked.current) return;
+    resumeChecked.current = true;
+    const pending = loadPendingRun();
+    if (!pending) return;
+    // Starting a run drops ?run=, so a pending run next to a run id is left over from earlier
+    if (runId) {
+      clearPendingRun();
+      return;
+    }
+
+    setIsProcessing(true);
+    toast({
+      title: "Resuming extraction",
+      description: `Waiting for the ${pending.files.length > 1 ? 'comparison' : 'extraction'} started before the page was reloaded...`,
+    });
+    resumePendingRun(pending)
+      .then((outcome) => {
+        setExtractedData(outcome.kind === 'single' ? outcome.result : null);
+        setComparison(outcome.kind === 'compare' ? outcome.matrix : null);
+        setSelectedField(null);
+        recordRun(pending.files, new Date(pending.startedAt), outcome);
+        toast({
+          title: outcome.kind === 'single' ? "Extraction completed" : "Comparison completed",
+          description: `Picked up ${pending.files.map((file) => file.name).join(', ')} after the reload.`,
+        });
+      })
+      .catch((error) => {
+        console.error('Extraction error:', error);
+        showFailure(error, pending.files.map((file) => file.name));
+      })
+      .finally(() => {
+        clearPendingRun();
+        setIsProcessing(false);
+      });
+  }, [runId, recordRun, showFailure, toast]);
+
+  const cachePolicy = (file: File): CachePolicy => (bypassCache.has(file) ? 'refresh' : 'use');
+
+  const setBypassFor = (file: File, bypass: boolean) =>
+    setBypassCache((prev) => {
+      const next = new Set(prev);
+      if (bypass) next.add(file);
+      else next.delete(file);
+      return next;
+    });
+
+  const handleInvalidateCache = async (file: File) => {
+    try {
+      const removed = await invalidateCachedExtractions(await hashFile(file));
+      toast({
+        title: "Cache cleared",
+        description: removed > 0
+          ? `Removed ${removed} cached result${removed === 1 ? '' : 's'} for ${file.name}.`
+          : `No cached results for ${file.name}.`,
+      });
+    } catch (error) {
+      console.error('Cache error:', error);
+      toast({
+        title: "Could not clear the cache",
+        description: error instanceof Error ? error.message : "The browser storage could not be updated.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const runBatch = async (items: BatchItem[]) => {
+    setIsProcessing(true);
+    setBatchItems(items);
+    try {
+      const finished = await runExtractionBatch({
+        items,
+        concurrency: batchConcurrency,
+        onUpdate: (index, item) =>
+          setBatchItems((prev) => prev && prev.map((existing, i) => (i === index ? item : existing))),
+      });
+      const failed = finished.filter((item) => item.state === 'failed').length;
+      toast({
+        title: "Batch completed",
+        description: failed > 0
+          ? `${finished.length - failed} of ${finished.length} files parsed, ${failed} failed.`
+          : `All ${finished.length} files parsed.`,
+        variant: failed > 0 ? "destructive" : "default",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Re-run only the failed files, with a fresh retry budget
+  const handleRetryFailed = () => {
+    if (!batchItems) return;
+    runBatch(
+      batchItems.map((item) =>
+        item.state === 'failed' ? { ...item, state: 'queued', attempts: 0, error: undefined } : item
+      )
+    );
+  };
+
+  const handleBatchExport = () => {
+    if (!batchItems) return;
+    const rows = batchToRows(batchItems, FIELD_MAPPINGS[batchItems[0].payerPlan]);
+    downloadFile(toCsv(rows), `batch-${batchItems[0].payerPlan}.csv`, "text/csv;charset=utf-8");
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    let source: ExportSource;
+    let baseName: string;
+    if (comparison) {
+      source = {
+        documents: comparison.documents.map(({ fileName }, i) => ({ fileName, result: comparison.results[i] })),
+        matrix: comparison,
+      };
+      baseName = `comparison-${new Date().toISOString().slice(0, 10)}`;
+    } else if (extractedData) {
+      const fileName = resultFiles[0]?.name ?? 'document.pdf';
+      source = { documents: [{ fileName, result: extractedData }] };
+      baseName = `${fileName.replace(/\.pdf$/i, '')}-extraction`;
+    } else {
+      return;
+    }
+
+    try {
+      const file = await buildExport(format, source, baseName);
+      downloadFile(file.content, file.fileName, file.type);
+    } catch (error) {
+      console.error('Export error:', error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Could not build the export file.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleExtract = async () => {
     if (files.length === 0) {
       toast({
@@ -35,23 +360,29 @@ const Index = () => {
 
     if (uploadMode === 'compare' && files.length < 2) {
       toast({
-        title: "Two files required",
-        description: "Please upload two PDF files for comparison.",
+        title: "More files required",
+        description: "Please upload at least two PDF files for comparison.",
         variant: "destructive",
       });
       return;
     }
 
-    if (!openAiKey) {
-      toast({
-        title: "Missing Rapid-Secret key",
-        description: "Please enter your Rapid-secret key to proceed.",
-        variant: "destructive",
-      });
+    if (uploadMode === 'batch') {
+      setFailures(null);
+      setExtractedData(null);
+      setComparison(null);
+      setCurrentRun(null);
+      setSearchParams({}, { replace: true });
+      await runBatch(queueBatchItems(files, payerPlan));
       return;
     }
 
     setIsProcessing(true);
+    setFailures(null);
+    setBatchItems(null);
+    setCurrentRun(null);
+    setSearchParams({}, { replace: true });
+    const startedAt = new Date();
     
     try {
       toast({
@@ -59,49 +390,95 @@ const Index = () => {
         description: `Extracting data from ${files.length} file${files.length > 1 ? 's' : ''}...`,
       });
 
+      const documents = uploadMode === 'single'
+        ? [{ file: files[0], payerPlan, cache: cachePolicy(files[0]) }]
+        : files.map((file) => ({ file, payerPlan: planFor(file), cache: cachePolicy(file) }));
+      // Remembered until the run is over, so a reload waits for its jobs instead of losing them
+      const pending: PendingRun = {
+        kind: uploadMode === 'single' ? 'single' : 'compare',
+        startedAt: startedAt.toISOString(),
+        baseline: 0,
+        files: await describeFiles(documents),
+        jobIds: documents.map(() => null),
+      };
+      savePendingRun(pending);
+      const onJob = (index: number, jobId: string) => {
+        pending.jobIds[index] = jobId;
+        savePendingRun(pending);
+      };
+
       if (uploadMode === 'single') {
         const data = await extractDataApi({
           file: files[0],
           payerPlan,
-          apiKey: openAiKey,
+          cache: cachePolicy(files[0]),
+          onJob: (jobId) => onJob(0, jobId),
         });
+        clearPendingRun();
 
         setExtractedData(data);
-        setComparisonResults(null);
+        setComparison(null);
+        setResultFiles(files.slice(0, 1));
+        setSelectedField(null);
+        recordRun(pending.files, startedAt, { kind: 'single', result: data });
 
         toast({
           title: "Extraction completed",
-          description: `Successfully extracted data from ${files[0].name}`,
+          description: isFromCache(data, startedAt)
+            ? `Loaded ${files[0].name} from the cache (extracted ${new Date(data.extractedAt).toLocaleString()}).`
+            : `Successfully extracted data from ${files[0].name}`,
         });
       } else {
-        const results = await compareDataApi({
-          file1: files[0],
-          file2: files[1],
-          payerPlan,
-          apiKey: openAiKey,
-        });
+        const matrix = await compareDataApi({ documents, onJob });
+        clearPendingRun();
 
-        setComparisonResults(results);
+        setComparison(matrix);
         setExtractedData(null);
+        setResultFiles(files);
+        setSelectedField(null);
+        recordRun(pending.files, startedAt, { kind: 'compare', matrix });
 
+        const cached = matrix.results.filter((result) => isFromCache(result, startedAt)).length;
         toast({
           title: "Comparison completed",
-          description: `Successfully compared ${files[0].name} and ${files[1].name}`,
+          description: `Successfully compared ${files.length} files${cached > 0 ? ` (${cached} from the cache)` : ''}`,
         });
       }
     } catch (error) {
       console.error('Extraction error:', error);
+      clearPendingRun();
+      const processed = uploadMode === 'single' ? files.slice(0, 1) : files;
+      showFailure(error, processed.map((file) => file.name));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handlePurge = async () => {
+    setIsPurging(true);
+    try {
+      const report = await purgeOrphanedResourcesApi();
+      const deleted = Object.values(report.deleted).reduce((a, b) => a + b, 0);
       toast({
-        title: "Processing failed",
-        description: error instanceof Error ? error.message : "An error occurred while processing the PDF files. Please check your OpenAI API key and try again.",
+        title: "Cleanup finished",
+        description: report.failed.length > 0
+          ? `Deleted ${deleted} leftover resource${deleted === 1 ? '' : 's'}, ${report.failed.length} could not be deleted.`
+          : `Deleted ${deleted} leftover resource${deleted === 1 ? '' : 's'}.`,
+        variant: report.failed.length > 0 ? "destructive" : "default",
+      });
+    } catch (error) {
+      console.error('Purge error:', error);
+      toast({
+        title: "Cleanup failed",
+        description: error instanceof Error ? error.message : "Could not list leftover resources.",
         variant: "destructive",
       });
     } finally {
-      setIsProcessing(false);
+      setIsPurging(false);
     }
   };
 
-  const canProcess = files.length > 0 && (uploadMode === 'single' || files.length === 2);
+  const canProcess = files.length > 0 && (uploadMode !== 'compare' || files.length >= 2);
 
   return (
     <div className="min-h-screen bg-gradient-surface">
@@ -117,6 +494,12 @@ const Index = () => {
           <p className="text-lg text-muted-foreground">
             Extract and compare medical data from PDF documents with RapidClaims.
           </p>
+          <Button variant="ghost" size="sm" asChild className="mt-2 text-muted-foreground">
+            <Link to="/history">
+              <History className="h-4 w-4 mr-2" />
+              History
+            </Link>
+          </Button>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -130,35 +513,86 @@ const Index = () => {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
+                <PayerPlanSelector
+                  value={payerPlan}
+                  onValueChange={setPayerPlan}
+                />
+
                 <div className="space-y-2">
-                  <Label htmlFor="openai-key" className="text-sm font-medium text-foreground">
-                    Rapid-Secret Key
+                  <Label htmlFor="reviewer-name" className="text-sm font-medium text-foreground">
+                    Reviewer name
                   </Label>
                   <Input
-                    id="openai-key"
-                    type="password"
-                    placeholder="Enter your Rapid-Secret key"
-                    value={openAiKey}
-                    onChange={(e) => setOpenAiKey(e.target.value)}
+                    id="reviewer-name"
+                    placeholder="Shown in the history of your corrections"
+                    value={reviewer}
+                    onChange={(e) => handleReviewerChange(e.target.value)}
                     className="w-full bg-card border-border shadow-sm"
                   />
                 </div>
                 
                 <Separator />
                 
-                <PayerPlanSelector
-                  value={payerPlan}
-                  onValueChange={setPayerPlan}
-                />
-                
+                <div className="space-y-2">
+                  <Label htmlFor="review-threshold" className="text-sm font-medium text-foreground">
+                    Review threshold: {Math.round(reviewThreshold * 100)}%
+                  </Label>
+                  <Slider
+                    id="review-threshold"
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={[Math.round(reviewThreshold * 100)]}
+                    onValueChange={([v]) => setReviewThreshold(v / 100)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Values with lower confidence are flagged for review.
+                  </p>
+                </div>
+
+                {uploadMode === 'batch' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="batch-concurrency" className="text-sm font-medium text-foreground">
+                      Files in parallel: {batchConcurrency}
+                    </Label>
+                    <Slider
+                      id="batch-concurrency"
+                      min={1}
+                      max={MAX_BATCH_CONCURRENCY}
+                      step={1}
+                      value={[batchConcurrency]}
+                      onValueChange={([v]) => setBatchConcurrency(v)}
+                      disabled={isProcessing}
+                    />
+                  </div>
+                )}
+
                 <Separator />
-                
+
                 <PDFUploader
                   mode={uploadMode}
                   onModeChange={setUploadMode}
                   files={files}
                   onFilesChange={setFiles}
                   isLoading={isProcessing}
+                  renderFileDetails={uploadMode !== 'batch' ? (file, index) => (
+                    <div className="space-y-2">
+                      {uploadMode === 'compare' && (
+                        <PayerPlanSelector
+                          id={`payer-plan-${index}`}
+                          label="Payer plan of this document"
+                          value={planFor(file)}
+                          onValueChange={(plan) => setPlanFor(file, plan)}
+                        />
+                      )}
+                      <CacheControls
+                        id={`bypass-cache-${index}`}
+                        bypass={bypassCache.has(file)}
+                        onBypassChange={(bypass) => setBypassFor(file, bypass)}
+                        onInvalidate={() => handleInvalidateCache(file)}
+                      />
+                    </div>
+                  ) : undefined}
                 />
                 
                 <Button
@@ -175,11 +609,24 @@ const Index = () => {
                   ) : (
                     <div className="flex items-center gap-2">
                       <Zap className="h-4 w-4" />
-                      {uploadMode === 'single' ? 'Extract Data' : 'Compare Files'}
+                      {uploadMode === 'single' && 'Extract Data'}
+                      {uploadMode === 'compare' && 'Compare Files'}
+                      {uploadMode === 'batch' && `Extract ${files.length} Files`}
                       <ArrowRight className="h-4 w-4" />
                     </div>
                   )}
                 </Button>
+
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handlePurge}
+                  disabled={isPurging || isProcessing}
+                  className="w-full text-muted-foreground"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  {isPurging ? 'Purging leftover uploads...' : 'Purge leftover uploads'}
+                </Button>
               </CardContent>
             </Card>
 
@@ -191,8 +638,18 @@ const Index = () => {
               <CardContent>
                 <div className="space-y-1 max-h-48 overflow-y-auto">
                   {FIELD_MAPPINGS[payerPlan].map((field, index) => (
-                    <div key={field} className="text-sm text-muted-foreground py-1 border-b border-border/50 last:border-0">
-                      {index + 1}. {field}
+                    <div
+                      key={field.key}
+                      title={field.description}
+                      className="flex items-center justify-between gap-2 text-sm text-muted-foreground py-1 border-b border-border/50 last:border-0"
+                    >
+                      <span>
+                        {index + 1}. {field.label}
+                        {field.required && <span className="text-destructive"> *</span>}
+                      </span>
+                      <span className="text-xs text-muted-foreground/70 whitespace-nowrap">
+                        {VALUE_KIND_LABELS[field.kind]}
+                      </span>
                     </div>
                   ))}
                 </div>
@@ -201,24 +658,78 @@ const Index = () => {
           </div>
 
           {/* Results Panel */}
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 space-y-6">
+            {failures && <ExtractionFailures failures={failures} />}
+
+            <ReviewQueue items={reviewItems} threshold={reviewThreshold} />
+
             {extractedData && (
               <ExtractedDataTable
                 mode="single"
-                data={extractedData}
-                fileName={files[0]?.name}
+                fields={FIELD_MAPPINGS[extractedData.payerPlan]}
+                data={extractedData.data}
+                evidence={extractedData.evidence}
+                confidence={extractedData.confidence}
+                reviewThreshold={reviewThreshold}
+                fileName={resultFiles[0]?.name}
+                actions={
+                  <ExportMenu
+                    onExport={handleExport}
+                    formats={hasCorrections ? ['csv', 'xlsx', 'json', 'jsonl'] : undefined}
+                  />
+                }
+                selectedField={selectedField}
+                onFieldSelect={setSelectedField}
+                corrections={extractedData.corrections}
+                onCorrect={handleCorrect}
+              />
+            )}
+
+            {extractedData && resultFiles[0] && (
+              <PdfViewer
+                file={resultFiles[0]}
+                target={selectedField ? extractedData.evidence[selectedField] : null}
               />
             )}
             
-            {comparisonResults && (
+            {comparison && (
               <ExtractedDataTable
                 mode="compare"
-                comparisonData={comparisonResults}
-                fileNames={[files[0]?.name, files[1]?.name]}
+                matrix={comparison}
+                reviewThreshold={reviewThreshold}
+                onBaselineChange={handleBaselineChange}
+                actions={
+                  <ExportMenu
+                    onExport={handleExport}
+                    formats={hasCorrections ? ['pdf', 'xlsx', 'csv', 'json', 'jsonl'] : ['pdf', 'xlsx', 'csv', 'json']}
+                  />
+                }
+                selectedField={selectedField}
+                onFieldSelect={setSelectedField}
+                onCorrect={handleCorrect}
+              />
+            )}
+
+            {comparison && (
+              <ComparisonViewers
+                matrix={comparison}
+                files={resultFiles}
+                selectedField={selectedField}
+                onFieldSelect={setSelectedField}
               />
             )}
             
-            {!extractedData && !comparisonResults && (
+            {batchItems && (
+              <BatchResults
+                items={batchItems}
+                fields={FIELD_MAPPINGS[batchItems[0].payerPlan]}
+                isRunning={isProcessing}
+                onRetryFailed={handleRetryFailed}
+                onExport={handleBatchExport}
+              />
+            )}
+
+            {!extractedData && !comparison && !failures && !batchItems && (
               <Card className="bg-card/50 shadow-md border-dashed border-2 border-border">
                 <CardContent className="py-16 text-center">
                   <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
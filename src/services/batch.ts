@@ -0,0 +1,117 @@
+// Batch extraction: many PDFs through extractDataApi (or another extractor) with bounded
+// concurrency, per-file state and automatic retries for transient failures.
+import type { ExtractionResult, FieldDefinition, PayerPlan } from "@/constants/fields";
+import { extractDataApi } from "@/services/extractionApi";
+import { RateLimitError, toExtractionError, type ExtractionError } from "@/services/errors";
+import type { ProviderId } from "@/services/providers";
+
+// retried: the last attempt failed and the file is waiting for another one
+export type BatchItemState = "queued" | "uploading" | "running" | "parsed" | "failed" | "retried";
+
+export interface BatchItem {
+  file: File;
+  payerPlan: PayerPlan;
+  state: BatchItemState;
+  attempts: number;
+  result?: ExtractionResult;
+  error?: ExtractionError;
+}
+
+export const MAX_BATCH_FILES = 200;
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 8;
+export const DEFAULT_BATCH_RETRIES = 2;
+
+const RETRY_BASE_DELAY_MS = 2000;
+
+export function queueBatchItems(files: File[], payerPlan: PayerPlan): BatchItem[] {
+  return files.map((file) => ({ file, payerPlan, state: "queued", attempts: 0 }));
+}
+
+// A bad key fails every attempt the same way
+function isRetryable(error: ExtractionError): boolean {
+  return error.kind !== "auth";
+}
+
+function retryDelayMs(error: ExtractionError, attempt: number): number {
+  if (error instanceof RateLimitError && error.retryAfterSeconds) return error.retryAfterSeconds * 1000;
+  return RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Runs every item that is not parsed yet, so a finished batch can be passed back in to re-run
+// only its failures. onUpdate receives each state change; the returned array is the final state.
+export async function runExtractionBatch({
+  items,
+  provider,
+  concurrency = DEFAULT_BATCH_CONCURRENCY,
+  maxRetries = DEFAULT_BATCH_RETRIES,
+  extract = extractDataApi,
+  onUpdate,
+}: {
+  items: BatchItem[];
+  provider?: ProviderId;
+  concurrency?: number;
+  maxRetries?: number;
+  // The browser goes through the extraction service; the CLI runs the pipeline in-process
+  extract?: typeof extractDataApi;
+  onUpdate?: (index: number, item: BatchItem) => void;
+}): Promise<BatchItem[]> {
+  const current = items.map((item) => ({ ...item }));
+  const update = (index: number, patch: Partial<BatchItem>) => {
+    current[index] = { ...current[index], ...patch };
+    onUpdate?.(index, current[index]);
+  };
+
+  const processItem = async (index: number) => {
+    for (;;) {
+      const { file, payerPlan } = current[index];
+      const attempts = current[index].attempts + 1;
+      update(index, { state: "uploading", attempts });
+      try {
+        const result = await extract({
+          file,
+          payerPlan,
+          provider,
+          onStage: (state) => update(index, { state }),
+        });
+        update(index, { state: "parsed", result, error: undefined });
+        return;
+      } catch (err) {
+        const error = toExtractionError(err);
+        if (!isRetryable(error) || attempts > maxRetries) {
+          update(index, { state: "failed", error });
+          return;
+        }
+        update(index, { state: "retried", error });
+        await sleep(retryDelayMs(error, attempts));
+      }
+    }
+  };
+
+  // Fixed pool of workers pulling from a shared cursor
+  let next = 0;
+  const worker = async () => {
+    while (next < current.length) {
+      const index = next++;
+      if (current[index].state !== "parsed") await processItem(index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, current.length)) }, worker));
+
+  return current;
+}
+
+// One row per file, one column per field: the grid shown in the UI and exported as a spreadsheet
+export function batchToRows(items: BatchItem[], fields: FieldDefinition[]): string[][] {
+  const header = ["File", "Payer plan", "Status", ...fields.map((f) => f.label), "Error"];
+  const rows = items.map((item) => [
+    item.file.name,
+    item.payerPlan,
+    item.state,
+    ...fields.map((f) => item.result?.data[f.key] ?? ""),
+    item.error && item.state === "failed" ? item.error.message : "",
+  ]);
+  return [header, ...rows];
+}
@@ -0,0 +1,131 @@
+// Builds the comparison matrix from finished extractions. Pure: changing the baseline column only
+// re-runs this, no extraction.
+import {
+  FIELD_MAPPINGS,
+  type ComparedDocument,
+  type ComparisonCell,
+  type ComparisonMatrix,
+  type ComparisonRow,
+  type ComparisonStatus,
+  type ExtractionResult,
+  type ValueKind,
+} from "@/constants/fields";
+import { BENEFIT_MAPPINGS, CANONICAL_BENEFITS } from "@/constants/benefits";
+import { valuesEquivalent } from "@/services/normalize";
+
+// Statuses that count as a difference from the baseline; renewal reviews hinge on these
+export const DIFFERENCE_STATUSES: ComparisonStatus[] = ["conflicting", "added", "removed"];
+
+// Cell fill per status in exported spreadsheets and reports: the --diff-* colors of the results
+// table as hex RGB; null keeps the cell unfilled
+export const STATUS_FILL_COLORS: Record<ComparisonStatus, string | null> = {
+  same: null,
+  equivalent: null,
+  conflicting: "FFFAE5",
+  added: "E9FBF0",
+  removed: "FDE8E8",
+  missing: "F3F4F6",
+  not_applicable: "F3F4F6",
+};
+
+type CellReading = Omit<ComparisonCell, "status">;
+
+// Compare parsed values so formatting differences ("QAR 100" vs "100 QAR") are not conflicts
+function comparisonStatus(kind: ValueKind, baseline: string | null, value: string | null): ComparisonStatus {
+  if (baseline === null && value === null) return "missing";
+  if (baseline === null) return "added";
+  if (value === null) return "removed";
+  if (baseline === value) return "same";
+  return valuesEquivalent(kind, baseline, value) ? "equivalent" : "conflicting";
+}
+
+function readField(result: ExtractionResult, key: string): CellReading {
+  return {
+    value: result.data[key] ?? null,
+    evidence: result.evidence[key] ?? null,
+    confidence: result.confidence[key] ?? null,
+  };
+}
+
+// Reads a canonical benefit out of one payer's extraction, joining split fields
+// ("Effective Date" + "Expiry Date") into one value
+function readBenefit(result: ExtractionResult, benefitKey: string): CellReading {
+  const keys = BENEFIT_MAPPINGS[result.payerPlan][benefitKey];
+  if (!keys) return { value: null, evidence: null, confidence: null, source: null };
+
+  const fields = FIELD_MAPPINGS[result.payerPlan];
+  const source = keys.map((key) => fields.find((f) => f.key === key)?.label ?? key).join(" + ");
+  const found = keys.filter((key) => result.data[key]);
+  if (found.length === 0) return { value: null, evidence: null, confidence: null, source };
+
+  const scores = found
+    .map((key) => result.confidence[key])
+    .filter((c): c is number => c !== null && c !== undefined);
+  return {
+    value: found.map((key) => result.data[key]).join(" – "),
+    evidence: result.evidence[found[0]] ?? null,
+    // A joined value is only as trustworthy as its weakest part
+    confidence: scores.length > 0 ? Math.min(...scores) : null,
+    source,
+  };
+}
+
+function buildRow(
+  field: string,
+  label: string,
+  kind: ValueKind,
+  readings: CellReading[],
+  baseline: number
+): ComparisonRow {
+  const base = readings[baseline];
+  return {
+    field,
+    label,
+    // A benefit one of the two schedules does not list is no difference between them
+    cells: readings.map((reading) => ({
+      ...reading,
+      status:
+        reading.source === null || base.source === null
+          ? "not_applicable"
+          : comparisonStatus(kind, base.value, reading.value),
+    })),
+  };
+}
+
+// Documents of one payer are compared on that payer's field list; mixed payers on the canonical
+// benefit taxonomy
+export function buildComparisonMatrix(
+  documents: ComparedDocument[],
+  results: ExtractionResult[],
+  baseline = 0
+): ComparisonMatrix {
+  const plans = new Set(results.map((r) => r.payerPlan));
+
+  let rows: ComparisonRow[];
+  if (plans.size === 1) {
+    rows = FIELD_MAPPINGS[results[0].payerPlan].map(({ key, label, kind }) =>
+      buildRow(key, label, kind, results.map((r) => readField(r, key)), baseline)
+    );
+  } else {
+    rows = CANONICAL_BENEFITS.filter(({ key }) => results.some((r) => BENEFIT_MAPPINGS[r.payerPlan][key])).map(
+      ({ key, label, kind }) => buildRow(key, label, kind, results.map((r) => readBenefit(r, key)), baseline)
+    );
+  }
+
+  return { documents, results, baseline, rows };
+}
+
+// Differences from the baseline per document; the baseline's own count is always 0
+export function countDifferences(matrix: ComparisonMatrix): number[] {
+  return matrix.documents.map(
+    (_, i) => matrix.rows.filter((row) => DIFFERENCE_STATUSES.includes(row.cells[i].status)).length
+  );
+}
+
+// The payer field behind a cell, or null when the cell joins several fields or the payer does not
+// list the benefit; corrections are made on payer fields
+export function cellFieldKey(matrix: ComparisonMatrix, field: string, index: number): string | null {
+  if (new Set(matrix.results.map((r) => r.payerPlan)).size === 1) return field;
+  const keys = BENEFIT_MAPPINGS[matrix.results[index].payerPlan][field];
+  return keys?.length === 1 ? keys[0] : null;
+}
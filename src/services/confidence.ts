@@ -0,0 +1,89 @@
+// Per-field confidence: combines the model's self-reported score with checks we can make
+// ourselves (label layout quality, whether the cited quote exists, rule/model agreement,
+// whether the value looks like the kind the field schema expects).
+import type { ValueKind } from "@/constants/fields";
+import { valuesEquivalent } from "@/services/normalize";
+
+// Fields scoring below this go to the review queue unless the user picks another threshold
+export const DEFAULT_REVIEW_THRESHOLD = 0.7;
+
+// Assumed self-report when the model omits a confidence
+const UNREPORTED_MODEL_CONFIDENCE = 0.6;
+
+export interface ConfidenceSignals {
+  source: "rules" | "model";
+  // Rules: how unambiguous the label/value layout was
+  labelScore?: number;
+  // Model: self-reported confidence
+  modelConfidence?: number | null;
+  // Model: whether the quoted snippet was found in the text layer; null when there is no text layer
+  quoteLocated?: boolean | null;
+  // Whether the rule pass and the model produced the same value; null when only one of them ran
+  agreement?: boolean | null;
+  // Whether the value has the shape of the field's ValueKind
+  kindMatch?: boolean;
+}
+
+function clamp(n: number): number {
+  return Math.round(Math.min(1, Math.max(0, n)) * 100) / 100;
+}
+
+export function scoreField(signals: ConfidenceSignals): number {
+  let score =
+    signals.source === "rules"
+      ? signals.labelScore ?? 1
+      : signals.modelConfidence ?? UNREPORTED_MODEL_CONFIDENCE;
+
+  if (signals.source === "model") {
+    // A quote we cannot find in the text layer is a strong hint of a hallucinated value
+    if (signals.quoteLocated === false) score *= 0.6;
+    // Without a text layer there is nothing to check the citation against
+    if (signals.quoteLocated === null) score *= 0.85;
+  }
+
+  if (signals.kindMatch === false) score *= 0.7;
+
+  if (signals.agreement === true) score = score + (1 - score) * 0.5;
+  if (signals.agreement === false) score *= 0.5;
+
+  return clamp(score);
+}
+
+const COVERAGE_WORDS = /\b(?:covered|not covered|excluded|included|nil|none|n\/a|yes|no|up to|limit|maximum)\b/i;
+const DATE = /\b\d{1,4}[/.-]\d{1,2}[/.-]\d{1,4}\b|\b\d{1,2}\s+[a-z]{3,9}\.?\s+\d{2,4}\b|\b[a-z]{3,9}\.?\s+\d{1,2},?\s+\d{2,4}\b/gi;
+
+// Cheap shape check against the schema; deliberately lenient, e.g. a percentage field may also
+// say "Not covered"
+export function valueMatchesKind(kind: ValueKind, value: string): boolean {
+  switch (kind) {
+    case "percentage":
+      return /\d\s*%/.test(value) || COVERAGE_WORDS.test(value);
+    case "currency":
+      return /\d/.test(value) || COVERAGE_WORDS.test(value);
+    case "date":
+      return (value.match(DATE) ?? []).length >= 1;
+    case "date_range":
+      return (value.match(DATE) ?? []).length >= 2;
+    case "coverage":
+      return COVERAGE_WORDS.test(value) || /\d/.test(value);
+    default:
+      return true;
+  }
+}
+
+function comparable(value: string): string {
+  return value.replace(/\s+/g, "").toLowerCase();
+}
+
+// Loose equality between a rule value and a model value: the model often trims or pads context
+// or reformats the value ("QR 100.00" for "QAR 100")
+export function valuesAgree(kind: ValueKind, a: string, b: string): boolean {
+  if (valuesEquivalent(kind, a, b)) return true;
+  const x = comparable(a);
+  const y = comparable(b);
+  return x === y || (x.length > 0 && y.length > 0 && (x.includes(y) || y.includes(x)));
+}
+
+export function needsReview(confidence: number | null | undefined, threshold: number): boolean {
+  return confidence !== null && confidence !== undefined && confidence < threshold;
+}
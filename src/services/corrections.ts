@@ -0,0 +1,50 @@
+// Manual corrections of extracted values. Results are never edited in place: every correction
+// returns a new result with the change appended to its history, so the model's value stays known.
+import type { ComparisonMatrix, ExtractionResult, FieldCorrection } from "@/constants/fields";
+import { buildComparisonMatrix } from "@/services/compare";
+
+// Confidence of a value a reviewer typed or confirmed
+const CORRECTED_CONFIDENCE = 1;
+
+export function applyCorrection(
+  result: ExtractionResult,
+  field: string,
+  input: string | null,
+  author: string,
+  correctedAt = new Date().toISOString()
+): ExtractionResult {
+  const value = input?.trim() || null;
+  const previous = result.data[field] ?? null;
+  if (value === previous) return result;
+
+  return {
+    ...result,
+    data: { ...result.data, [field]: value },
+    confidence: { ...result.confidence, [field]: value === null ? null : CORRECTED_CONFIDENCE },
+    corrections: [...result.corrections, { field, previous, value, author, correctedAt }],
+  };
+}
+
+export function fieldHistory(result: ExtractionResult, field: string): FieldCorrection[] {
+  return result.corrections.filter((c) => c.field === field);
+}
+
+// What the extraction itself produced, before any correction
+export function modelValue(result: ExtractionResult, field: string): string | null {
+  const [first] = fieldHistory(result, field);
+  return first ? first.previous : (result.data[field] ?? null);
+}
+
+// Corrects one document of a comparison and recomputes every status against the baseline
+export function correctMatrix(
+  matrix: ComparisonMatrix,
+  index: number,
+  field: string,
+  value: string | null,
+  author: string
+): ComparisonMatrix {
+  const corrected = applyCorrection(matrix.results[index], field, value, author);
+  if (corrected === matrix.results[index]) return matrix;
+  const results = matrix.results.map((result, i) => (i === index ? corrected : result));
+  return buildComparisonMatrix(matrix.documents, results, matrix.baseline);
+}
@@ -0,0 +1,161 @@
+// Typed failures surfaced by the extraction service. Callers switch on the class (or `kind`)
+// instead of parsing messages.
+
+export type ExtractionErrorKind = "upload" | "run_failed" | "parse" | "auth" | "rate_limit" | "unknown";
+
+export class ExtractionError extends Error {
+  name = "ExtractionError";
+  kind: ExtractionErrorKind = "unknown";
+  status?: number;
+  cause?: unknown;
+
+  constructor(message: string, options: { status?: number; cause?: unknown } = {}) {
+    super(message);
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+}
+
+// The document could not be handed to the provider
+export class UploadError extends ExtractionError {
+  name = "UploadError";
+  kind: ExtractionErrorKind = "upload";
+}
+
+// The provider accepted the request but the run did not complete
+export class RunFailedError extends ExtractionError {
+  name = "RunFailedError";
+  kind: ExtractionErrorKind = "run_failed";
+  runStatus?: string;
+
+  constructor(message: string, options: { status?: number; cause?: unknown; runStatus?: string } = {}) {
+    super(message, options);
+    this.runStatus = options.runStatus;
+  }
+}
+
+// The model answered but not with usable JSON
+export class ParseError extends ExtractionError {
+  name = "ParseError";
+  kind: ExtractionErrorKind = "parse";
+}
+
+// Missing, invalid or unauthorized API key
+export class AuthError extends ExtractionError {
+  name = "AuthError";
+  kind: ExtractionErrorKind = "auth";
+}
+
+export class RateLimitError extends ExtractionError {
+  name = "RateLimitError";
+  kind: ExtractionErrorKind = "rate_limit";
+  retryAfterSeconds?: number;
+
+  constructor(message: string, options: { status?: number; cause?: unknown; retryAfterSeconds?: number } = {}) {
+    super(message, options);
+    this.retryAfterSeconds = options.retryAfterSeconds;
+  }
+}
+
+export interface FileFailure {
+  fileName: string;
+  error: ExtractionError;
+}
+
+// Thrown by compareDataApi when one or both documents could not be extracted
+export class ComparisonFailedError extends ExtractionError {
+  name = "ComparisonFailedError";
+  failures: FileFailure[];
+
+  constructor(failures: FileFailure[]) {
+    super(`Extraction failed for ${failures.map((f) => f.fileName).join(", ")}`);
+    this.failures = failures;
+  }
+}
+
+// Values of a Promise.allSettled over several files, in file order. Throws a ComparisonFailedError
+// naming every file that failed, not just the first
+export function settledResults<T>(settled: PromiseSettledResult<T>[], fileNames: string[]): T[] {
+  const failures: FileFailure[] = [];
+  settled.forEach((outcome, i) => {
+    if (outcome.status === "rejected") {
+      failures.push({ fileName: fileNames[i], error: toExtractionError(outcome.reason) });
+    }
+  });
+  if (failures.length > 0) throw new ComparisonFailedError(failures);
+  return settled.map((outcome) => (outcome as PromiseFulfilledResult<T>).value);
+}
+
+type ErrorClass = new (message: string, options?: { status?: number }) => ExtractionError;
+
+// Maps a non-OK HTTP response to the right error class: 401/403 are always auth problems and
+// 429 is always rate limiting, whatever step of the pipeline they happened in.
+export async function errorFromResponse(res: Response, context: string, fallback: ErrorClass): Promise<ExtractionError> {
+  const text = await res.text().catch(() => "");
+  const message = `${context}: ${res.status} ${text}`.trim();
+
+  if (res.status === 401 || res.status === 403) return new AuthError(message, { status: res.status });
+  if (res.status === 429) {
+    const retryAfter = Number(res.headers.get("retry-after"));
+    return new RateLimitError(message, {
+      status: res.status,
+      retryAfterSeconds: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined,
+    });
+  }
+  return new fallback(message, { status: res.status });
+}
+
+export function toExtractionError(error: unknown): ExtractionError {
+  if (error instanceof ExtractionError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  return new ExtractionError(message, { cause: error });
+}
+
+// Errors as the extraction service (api/) returns them, so the browser can rebuild the same classes
+export interface SerializedError {
+  name: string;
+  kind: ExtractionErrorKind;
+  message: string;
+  status?: number;
+  retryAfterSeconds?: number;
+  runStatus?: string;
+  failures?: { fileName: string; error: SerializedError }[];
+}
+
+export function serializeError(error: ExtractionError): SerializedError {
+  return {
+    name: error.name,
+    kind: error.kind,
+    message: error.message,
+    status: error.status,
+    retryAfterSeconds: error instanceof RateLimitError ? error.retryAfterSeconds : undefined,
+    runStatus: error instanceof RunFailedError ? error.runStatus : undefined,
+    failures:
+      error instanceof ComparisonFailedError
+        ? error.failures.map(({ fileName, error }) => ({ fileName, error: serializeError(error) }))
+        : undefined,
+  };
+}
+
+export function deserializeError(json: SerializedError): ExtractionError {
+  const { message, status } = json;
+  if (json.failures) {
+    return new ComparisonFailedError(
+      json.failures.map(({ fileName, error }) => ({ fileName, error: deserializeError(error) }))
+    );
+  }
+  switch (json.kind) {
+    case "upload":
+      return new UploadError(message, { status });
+    case "run_failed":
+      return new RunFailedError(message, { status, runStatus: json.runStatus });
+    case "parse":
+      return new ParseError(message, { status });
+    case "auth":
+      return new AuthError(message, { status });
+    case "rate_limit":
+      return new RateLimitError(message, { status, retryAfterSeconds: json.retryAfterSeconds });
+    default:
+      return new ExtractionError(message, { status });
+  }
+}
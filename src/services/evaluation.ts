@@ -0,0 +1,265 @@
+// Evaluation against a hand-labelled corpus: how often the extractor gets each field right, per
+// payer plan, per field and per model/prompt version, and which fields changed since the previous
+// run. Runs are plain JSON so they can be kept next to the corpus and diffed later.
+import {
+  FIELD_MAPPINGS,
+  FIELD_SCHEMA_VERSION,
+  type ExtractedData,
+  type ExtractionResult,
+  type PayerPlan,
+  type ValueKind,
+} from "@/constants/fields";
+import { valuesEquivalent } from "@/services/normalize";
+import { PROMPT_VERSION } from "@/services/prompt";
+
+export interface LabelledDocument {
+  fileName: string;
+  payerPlan: PayerPlan;
+  // Fields left out are not scored; null means the document does not state the field
+  expected: ExtractedData;
+}
+
+export interface FieldScore {
+  field: string;
+  expected: string | null;
+  actual: string | null;
+  // Same text, ignoring surrounding whitespace
+  exact: boolean;
+  // Same value once normalized for the field's kind ("QAR 100" vs "100 QAR")
+  normalized: boolean;
+}
+
+export interface DocumentScore {
+  fileName: string;
+  payerPlan: PayerPlan;
+  model: string;
+  fields: FieldScore[];
+  // Set when extraction failed; every labelled field then counts as a miss
+  error: string | null;
+}
+
+export interface MatchCounts {
+  total: number;
+  exact: number;
+  normalized: number;
+}
+
+export interface EvaluationSummary {
+  overall: MatchCounts;
+  byPlan: Record<string, MatchCounts>;
+  // Keyed "<plan>.<field>"
+  byField: Record<string, MatchCounts>;
+  // Keyed "<model> / prompt v<version>"
+  byModel: Record<string, MatchCounts>;
+}
+
+export interface EvaluationRun {
+  // ISO timestamp
+  startedAt: string;
+  promptVersion: string;
+  schemaVersion: string;
+  // The provider forced for the run; null when each plan used its configured one
+  provider: string | null;
+  documents: DocumentScore[];
+  summary: EvaluationSummary;
+}
+
+export interface FieldChange {
+  fileName: string;
+  payerPlan: PayerPlan;
+  field: string;
+  expected: string | null;
+  before: string | null;
+  after: string | null;
+}
+
+export interface RateChange {
+  // A byField key
+  key: string;
+  before: number;
+  after: number;
+}
+
+export interface EvaluationDiff {
+  previous: { startedAt: string; promptVersion: string };
+  // Normalized match before, miss now
+  regressions: FieldChange[];
+  fixes: FieldChange[];
+  // Fields whose normalized match rate moved
+  fieldRates: RateChange[];
+}
+
+function fieldMatches(kind: ValueKind, expected: string | null, actual: string | null) {
+  const a = expected?.trim() || null;
+  const b = actual?.trim() || null;
+  if (a === null || b === null) return { exact: a === b, normalized: a === b };
+  return { exact: a === b, normalized: a === b || valuesEquivalent(kind, a, b) };
+}
+
+export function scoreDocument(
+  labelled: LabelledDocument,
+  result: ExtractionResult | null,
+  model: string,
+  error: string | null = null
+): DocumentScore {
+  const fields = FIELD_MAPPINGS[labelled.payerPlan]
+    .filter(({ key }) => Object.prototype.hasOwnProperty.call(labelled.expected, key))
+    .map(({ key, kind }) => {
+      const expected = labelled.expected[key];
+      const actual = result?.data[key] ?? null;
+      const { exact, normalized } = result ? fieldMatches(kind, expected, actual) : { exact: false, normalized: false };
+      return { field: key, expected, actual, exact, normalized };
+    });
+  return { fileName: labelled.fileName, payerPlan: labelled.payerPlan, model, fields, error };
+}
+
+export function modelKey(model: string, promptVersion = PROMPT_VERSION): string {
+  return `${model} / prompt v${promptVersion}`;
+}
+
+export function summarize(documents: DocumentScore[], promptVersion = PROMPT_VERSION): EvaluationSummary {
+  const summary: EvaluationSummary = { overall: { total: 0, exact: 0, normalized: 0 }, byPlan: {}, byField: {}, byModel: {} };
+  const group = (groups: Record<string, MatchCounts>, key: string) =>
+    (groups[key] ??= { total: 0, exact: 0, normalized: 0 });
+
+  for (const doc of documents) {
+    for (const score of doc.fields) {
+      for (const counts of [
+        summary.overall,
+        group(summary.byPlan, doc.payerPlan),
+        group(summary.byField, `${doc.payerPlan}.${score.field}`),
+        group(summary.byModel, modelKey(doc.model, promptVersion)),
+      ]) {
+        counts.total++;
+        if (score.exact) counts.exact++;
+        if (score.normalized) counts.normalized++;
+      }
+    }
+  }
+  return summary;
+}
+
+export function buildEvaluationRun(
+  documents: DocumentScore[],
+  { startedAt, provider = null }: { startedAt: Date; provider?: string | null }
+): EvaluationRun {
+  return {
+    startedAt: startedAt.toISOString(),
+    promptVersion: PROMPT_VERSION,
+    schemaVersion: FIELD_SCHEMA_VERSION,
+    provider,
+    documents,
+    summary: summarize(documents),
+  };
+}
+
+export function matchRate(counts: MatchCounts, kind: "exact" | "normalized" = "normalized"): number {
+  return counts.total === 0 ? 0 : counts[kind] / counts.total;
+}
+
+// Only documents and fields labelled in both runs are compared, so growing the corpus does not
+// show up as regressions
+export function diffRuns(previous: EvaluationRun, current: EvaluationRun): EvaluationDiff {
+  const regressions: FieldChange[] = [];
+  const fixes: FieldChange[] = [];
+  const before = new Map(previous.documents.map((doc) => [`${doc.payerPlan}/${doc.fileName}`, doc]));
+
+  for (const doc of current.documents) {
+    const old = before.get(`${doc.payerPlan}/${doc.fileName}`);
+    if (!old) continue;
+    const oldFields = new Map(old.fields.map((score) => [score.field, score]));
+    for (const score of doc.fields) {
+      const oldScore = oldFields.get(score.field);
+      if (!oldScore || oldScore.normalized === score.normalized) continue;
+      const change = {
+        fileName: doc.fileName,
+        payerPlan: doc.payerPlan,
+        field: score.field,
+        expected: score.expected,
+        before: oldScore.actual,
+        after: score.actual,
+      };
+      (score.normalized ? fixes : regressions).push(change);
+    }
+  }
+
+  const fieldRates: RateChange[] = [];
+  for (const [key, counts] of Object.entries(current.summary.byField)) {
+    const old = previous.summary.byField[key];
+    if (!old) continue;
+    const rates = { before: matchRate(old), after: matchRate(counts) };
+    if (rates.before !== rates.after) fieldRates.push({ key, ...rates });
+  }
+
+  return {
+    previous: { startedAt: previous.startedAt, promptVersion: previous.promptVersion },
+    regressions,
+    fixes,
+    fieldRates,
+  };
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// One row per group (overall, plan, model/prompt, field) for spreadsheets
+export function evaluationToRows(run: EvaluationRun): string[][] {
+  const header = ["Scope", "Key", "Labelled", "Exact", "Exact rate", "Normalized", "Normalized rate"];
+  const row = (scope: string, key: string, counts: MatchCounts) => [
+    scope,
+    key,
+    String(counts.total),
+    String(counts.exact),
+    percent(matchRate(counts, "exact")),
+    String(counts.normalized),
+    percent(matchRate(counts)),
+  ];
+  const { overall, byPlan, byModel, byField } = run.summary;
+  return [
+    header,
+    row("overall", "all fields", overall),
+    ...Object.entries(byPlan).map(([key, counts]) => row("plan", key, counts)),
+    ...Object.entries(byModel).map(([key, counts]) => row("model", key, counts)),
+    ...Object.entries(byField).map(([key, counts]) => row("field", key, counts)),
+  ];
+}
+
+// Plain-text summary for terminals and CI logs
+export function formatEvaluationReport(run: EvaluationRun, diff: EvaluationDiff | null): string {
+  const line = (key: string, counts: MatchCounts) =>
+    `  ${key.padEnd(48)} ${percent(matchRate(counts)).padStart(6)} normalized  ${percent(matchRate(counts, "exact")).padStart(6)} exact  (${counts.total})`;
+  const { overall, byPlan, byModel, byField } = run.summary;
+  const lines = [
+    `Evaluation of ${run.documents.length} document(s), prompt v${run.promptVersion}, schema v${run.schemaVersion}`,
+    line("overall", overall),
+    "By plan:",
+    ...Object.entries(byPlan).map(([key, counts]) => line(key, counts)),
+    "By model / prompt:",
+    ...Object.entries(byModel).map(([key, counts]) => line(key, counts)),
+    "By field:",
+    ...Object.entries(byField).map(([key, counts]) => line(key, counts)),
+  ];
+
+  const failed = run.documents.filter((doc) => doc.error);
+  if (failed.length > 0) {
+    lines.push("Failed documents:", ...failed.map((doc) => `  ${doc.fileName}: ${doc.error}`));
+  }
+
+  if (diff) {
+    const show = (value: string | null) => (value === null ? "(none)" : JSON.stringify(value));
+    const change = (c: FieldChange) =>
+      `  ${c.fileName} ${c.payerPlan}.${c.field}: ${show(c.before)} -> ${show(c.after)} (expected ${show(c.expected)})`;
+    lines.push(
+      `Against the run of ${diff.previous.startedAt} (prompt v${diff.previous.promptVersion}):`,
+      `  ${diff.regressions.length} regression(s), ${diff.fixes.length} fix(es)`
+    );
+    if (diff.regressions.length > 0) lines.push("Regressions:", ...diff.regressions.map(change));
+    if (diff.fixes.length > 0) lines.push("Fixes:", ...diff.fixes.map(change));
+    if (diff.fieldRates.length > 0) {
+      lines.push(
+        "Field rates:",
+        ...diff.fieldRates.map(({ key, before, after }) => `  ${key.padEnd(48)} ${percent(before)} -> ${percent(after)}`)
+      );
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,242 @@
+// Export of extraction and comparison results: CSV and XLSX for the claims-configuration
+// loaders, JSON for anything that wants the full record (evidence, confidence, schema version),
+// the printable PDF report for comparisons, and JSONL of manual corrections as labelled data.
+import {
+  FIELD_MAPPINGS,
+  FIELD_SCHEMA_VERSION,
+  type ComparisonMatrix,
+  type ExtractionResult,
+} from "@/constants/fields";
+import { STATUS_FILL_COLORS } from "@/services/compare";
+import { fieldHistory, modelValue } from "@/services/corrections";
+import { PROMPT_VERSION } from "@/services/prompt";
+
+export type ExportFormat = "csv" | "xlsx" | "json" | "pdf" | "jsonl";
+
+export interface ExportedDocument {
+  fileName: string;
+  result: ExtractionResult;
+}
+
+// What is on screen: one document (single mode) or several plus their comparison
+export interface ExportSource {
+  documents: ExportedDocument[];
+  matrix?: ComparisonMatrix;
+}
+
+export interface ExportFile {
+  content: BlobPart;
+  fileName: string;
+  type: string;
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json",
+  pdf: "application/pdf",
+  jsonl: "application/x-ndjson",
+};
+
+// Spreadsheets run a cell starting with one of these as a formula; values come from uploaded PDFs
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// RFC 4180: quote fields containing separators, quotes or line breaks. A leading ' keeps Excel
+// from evaluating a value such as "=HYPERLINK(...)"
+function csvCell(value: string): string {
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: string[][]): string {
+  // Leading BOM so Excel opens UTF-8 (Arabic names, "–") correctly
+  return "\uFEFF" + rows.map((row) => row.map(csvCell).join(",")).join("\r\n");
+}
+
+export function downloadFile(content: BlobPart, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Browsers may start reading the blob only after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
+
+function percent(confidence: number | null | undefined): string {
+  return confidence === null || confidence === undefined ? "" : `${Math.round(confidence * 100)}%`;
+}
+
+export function documentToRows({ result }: ExportedDocument): string[][] {
+  const header = ["Field", "Value", "Confidence", "Page", "Source snippet"];
+  const rows = FIELD_MAPPINGS[result.payerPlan].map(({ key, label }) => [
+    label,
+    result.data[key] ?? "",
+    percent(result.confidence[key]),
+    result.evidence[key]?.page?.toString() ?? "",
+    result.evidence[key]?.snippet ?? "",
+  ]);
+  return [header, ...rows];
+}
+
+// Field, then per document its value and (except for the baseline) its status against the baseline
+export function comparisonToRows(matrix: ComparisonMatrix): string[][] {
+  const header = ["Field"];
+  matrix.documents.forEach(({ fileName }, i) => {
+    header.push(fileName);
+    if (i !== matrix.baseline) header.push(`${fileName} vs baseline`);
+  });
+  const rows = matrix.rows.map((row) => {
+    const cells = [row.label];
+    row.cells.forEach((cell, i) => {
+      cells.push(cell.value ?? "");
+      if (i !== matrix.baseline) cells.push(cell.status);
+    });
+    return cells;
+  });
+  return [header, ...rows];
+}
+
+export function toExportJson({ documents, matrix }: ExportSource): string {
+  return JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      schemaVersion: FIELD_SCHEMA_VERSION,
+      documents: documents.map(({ fileName, result }) => ({
+        fileName,
+        payerPlan: result.payerPlan,
+        schemaVersion: result.schemaVersion,
+        extractedAt: result.extractedAt,
+        fields: FIELD_MAPPINGS[result.payerPlan].map(({ key, label, kind }) => ({
+          key,
+          label,
+          kind,
+          value: result.data[key] ?? null,
+          confidence: result.confidence[key] ?? null,
+          evidence: result.evidence[key] ?? null,
+        })),
+        corrections: result.corrections,
+      })),
+      comparison: matrix
+        ? {
+            baseline: matrix.documents[matrix.baseline].fileName,
+            rows: matrix.rows.map((row) => ({
+              field: row.field,
+              label: row.label,
+              cells: row.cells.map((cell, i) => ({
+                fileName: matrix.documents[i].fileName,
+                value: cell.value,
+                status: cell.status,
+              })),
+            })),
+          }
+        : undefined,
+    },
+    null,
+    2
+  );
+}
+
+// One line per corrected field: the model's value, the reviewer's final value and the source text
+// the model read it from. Meant for evaluating and improving the extraction prompt.
+export function toLabelledData(documents: ExportedDocument[]): string {
+  const lines: string[] = [];
+  for (const { fileName, result } of documents) {
+    for (const { key, label, kind } of FIELD_MAPPINGS[result.payerPlan]) {
+      const history = fieldHistory(result, key);
+      if (history.length === 0) continue;
+      const last = history[history.length - 1];
+      lines.push(
+        JSON.stringify({
+          fileName,
+          payerPlan: result.payerPlan,
+          schemaVersion: result.schemaVersion,
+          promptVersion: PROMPT_VERSION,
+          field: key,
+          label,
+          kind,
+          modelValue: modelValue(result, key),
+          correctedValue: result.data[key] ?? null,
+          evidence: result.evidence[key] ?? null,
+          correctedBy: last.author,
+          correctedAt: last.correctedAt,
+        })
+      );
+    }
+  }
+  return lines.join("\n");
+}
+
+// Excel sheet names: at most 31 characters, no []:*?/\, unique within the workbook
+function sheetName(fileName: string, taken: Set<string>): string {
+  const base = fileName.replace(/\.pdf$/i, "").replace(/[[\]:*?/\\]/g, "_").slice(0, 31) || "Document";
+  let name = base;
+  for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${base.slice(0, 27)} (${n})`;
+  taken.add(name.toLowerCase());
+  return name;
+}
+
+export async function toXlsx({ documents, matrix }: ExportSource): Promise<BlobPart> {
+  // Loaded on demand: the library is large and only needed when exporting
+  const ExcelJS = await import("exceljs");
+  // CommonJS package: depending on the bundler the classes sit on the module or on its default export
+  const { Workbook } = (ExcelJS as unknown as { default?: typeof ExcelJS }).default ?? ExcelJS;
+  const workbook = new Workbook();
+  workbook.created = new Date();
+  const taken = new Set<string>(["comparison"]);
+
+  const addSheet = (name: string, rows: string[][]) => {
+    const sheet = workbook.addWorksheet(name, { views: [{ state: "frozen", ySplit: 1 }] });
+    // Plain strings are written as text cells, never formulas, so no escaping as in CSV
+    sheet.addRows(rows);
+    sheet.getRow(1).font = { bold: true };
+    sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: rows[0].length } };
+    sheet.columns.forEach((column, i) => {
+      const longest = Math.max(...rows.map((row) => row[i]?.length ?? 0));
+      column.width = Math.min(60, Math.max(12, longest + 2));
+    });
+    return sheet;
+  };
+
+  if (matrix) {
+    const sheet = addSheet("Comparison", comparisonToRows(matrix));
+    matrix.rows.forEach((row, r) => {
+      // Value columns: one per document, plus a status column after every non-baseline one
+      let column = 2;
+      row.cells.forEach((cell, i) => {
+        const fill = i === matrix.baseline ? null : STATUS_FILL_COLORS[cell.status];
+        const columns = i === matrix.baseline ? [column] : [column, column + 1];
+        if (fill) {
+          for (const c of columns) {
+            sheet.getCell(r + 2, c).fill = { type: "pattern", pattern: "solid", fgColor: { argb: `FF${fill}` } };
+          }
+        }
+        column += columns.length;
+      });
+    });
+  }
+
+  for (const doc of documents) {
+    addSheet(sheetName(doc.fileName, taken), documentToRows(doc));
+  }
+
+  return workbook.xlsx.writeBuffer();
+}
+
+export async function buildExport(format: ExportFormat, source: ExportSource, baseName: string): Promise<ExportFile> {
+  const type = MIME_TYPES[format];
+  const fileName = `${baseName}.${format}`;
+  if (format === "xlsx") return { content: await toXlsx(source), fileName, type };
+  if (format === "json") return { content: toExportJson(source), fileName, type };
+  if (format === "jsonl") {
+    return { content: toLabelledData(source.documents), fileName: `${baseName}-corrections.jsonl`, type };
+  }
+  if (format === "pdf") {
+    if (!source.matrix) throw new Error("The PDF report needs a comparison");
+    // Loaded on demand like exceljs
+    const { buildComparisonReport } = await import("@/services/report");
+    return { content: await buildComparisonReport(source.matrix), fileName, type };
+  }
+  const rows = source.matrix ? comparisonToRows(source.matrix) : documentToRows(source.documents[0]);
+  return { content: toCsv(rows), fileName, type };
+}
@@ -0,0 +1,221 @@
+// Extraction pipeline: local text layer + rules first, then the ExtractionProvider configured
+// for the payer plan for whatever the rules could not find. Holds the provider key, so it runs
+// server-side (the api/ proxy); the browser goes through extractionApi.ts.
+import {
+  FIELD_MAPPINGS,
+  FIELD_SCHEMA_VERSION,
+  type PayerPlan,
+  type ExtractedData,
+  type ExtractionResult,
+  type FieldEvidence,
+  type ComparisonMatrix,
+  MAX_COMPARE_DOCUMENTS,
+} from "@/constants/fields";
+import { readFieldOutput, type FieldOutput } from "@/services/prompt";
+import { AuthError, settledResults, toExtractionError } from "@/services/errors";
+import {
+  listProviders,
+  resolveProvider,
+  type ExtractionProvider,
+  type ExtractionRequest,
+  type ProviderId,
+  type PurgeReport,
+} from "@/services/providers";
+import { extractWithRules } from "@/services/ruleExtractor";
+import { scoreField, valueMatchesKind, valuesAgree } from "@/services/confidence";
+import { buildComparisonMatrix } from "@/services/compare";
+import { extractPdfText, locateSnippet, type PdfDocumentText } from "@/services/pdfText";
+
+function assertKey(apiKey?: string) {
+  if (!apiKey) throw new AuthError("Missing OpenAI API key");
+}
+
+async function readTextLayer(file: File): Promise<PdfDocumentText | null> {
+  try {
+    return await extractPdfText(file);
+  } catch (err) {
+    // Encrypted or malformed PDFs: let the provider work from the raw file
+    console.warn(`Could not read the text layer of ${file.name}:`, err);
+    return null;
+  }
+}
+
+// Models echo line breaks and runs of spaces from table cells; values are single-line
+function tidyValue(value: string): string | null {
+  const tidy = value.replace(/\s+/g, " ").trim();
+  return tidy.length > 0 ? tidy : null;
+}
+
+// Pins a model citation to the text layer: confirms the page and adds a bounding box. Falls back
+// to the model's own page/quote when the quote cannot be found (e.g. scanned PDFs).
+// `located` is null when there is no text layer to check against.
+function citeModelOutput(
+  output: FieldOutput,
+  document: PdfDocumentText | null
+): { evidence: FieldEvidence; located: boolean | null } {
+  const located = document ? locateSnippet(document, output.quote ?? output.value ?? "", output.page) : null;
+  return {
+    evidence: {
+      page: located?.page ?? output.page,
+      snippet: output.quote,
+      bbox: located?.bbox ?? null,
+    },
+    located: document?.hasTextLayer ? located !== null : null,
+  };
+}
+
+// Progress reported while a document is processed: reading/sending it, then extracting
+export type ExtractionStage = "uploading" | "running";
+
+async function runProvider(
+  provider: ExtractionProvider,
+  request: ExtractionRequest,
+  onStage?: (stage: ExtractionStage) => void
+): Promise<Record<string, unknown>> {
+  // Upload, extract, and always release whatever the provider created
+  const upload = await provider.upload(request);
+  onStage?.("running");
+  try {
+    return await provider.extract(upload, request);
+  } finally {
+    await provider.cleanup(upload, request).catch((err) => {
+      console.warn(`Cleanup failed for provider ${provider.id}:`, err);
+    });
+  }
+}
+
+export async function extractDocument({
+  file,
+  payerPlan,
+  apiKey,
+  provider: providerId,
+  onStage,
+}: {
+  file: File;
+  payerPlan: PayerPlan;
+  apiKey: string;
+  provider?: ProviderId;
+  onStage?: (stage: ExtractionStage) => void;
+}): Promise<ExtractionResult> {
+  const fields = FIELD_MAPPINGS[payerPlan];
+  const provider = resolveProvider(payerPlan, providerId);
+  if (provider.id !== "rules") assertKey(apiKey);
+
+  // 1) Parse the PDF text layer locally
+  onStage?.("uploading");
+  const document = await readTextLayer(file);
+
+  // 2) Deterministic label/value pass; no model call needed for what it finds
+  const ruleMatches = document?.hasTextLayer ? extractWithRules(fields, document) : {};
+  const remaining = fields.filter((field) => !ruleMatches[field.key]);
+
+  // 3) Escalate the still-missing fields to the provider. When a model call happens anyway the
+  // rule-filled fields ride along (the document text dominates the cost) so both passes can be
+  // cross-checked. Failures propagate as typed errors: an all-null result would be
+  // indistinguishable from a document without the fields.
+  const crossCheck = provider.id !== "rules";
+  let json: Record<string, unknown> = {};
+  if (remaining.length > 0) {
+    try {
+      const requested = crossCheck ? fields : remaining;
+      json = await runProvider(provider, { file, payerPlan, fields: requested, apiKey, document }, onStage);
+    } catch (error) {
+      throw toExtractionError(error);
+    }
+  }
+
+  // Ensure all expected keys exist; fill missing with null
+  const normalized: ExtractedData = {};
+  const evidence: ExtractionResult["evidence"] = {};
+  const confidence: ExtractionResult["confidence"] = {};
+  for (const field of fields) {
+    const { key } = field;
+    const output = readFieldOutput(Object.prototype.hasOwnProperty.call(json, key) ? json[key] : null);
+    if (output.value !== null) output.value = tidyValue(output.value);
+
+    const match = ruleMatches[key];
+    if (match) {
+      normalized[key] = match.value;
+      evidence[key] = { page: match.pageNumber, snippet: match.snippet, bbox: match.bbox };
+      confidence[key] = scoreField({
+        source: "rules",
+        labelScore: match.labelScore,
+        agreement: output.value !== null ? valuesAgree(field.kind, match.value, output.value) : null,
+        kindMatch: valueMatchesKind(field.kind, match.value),
+      });
+      continue;
+    }
+
+    normalized[key] = output.value;
+    if (output.value === null) {
+      evidence[key] = null;
+      confidence[key] = null;
+      continue;
+    }
+
+    const cited = citeModelOutput(output, document);
+    evidence[key] = cited.evidence;
+    confidence[key] = scoreField({
+      source: "model",
+      modelConfidence: output.confidence,
+      quoteLocated: cited.located,
+      kindMatch: valueMatchesKind(field.kind, output.value),
+    });
+  }
+
+  return {
+    payerPlan,
+    schemaVersion: FIELD_SCHEMA_VERSION,
+    extractedAt: new Date().toISOString(),
+    data: normalized,
+    evidence,
+    confidence,
+    corrections: [],
+  };
+}
+
+// Compares 2..MAX_COMPARE_DOCUMENTS documents against the baseline one. Documents may belong to
+// different payers; they are then compared on the canonical benefit taxonomy.
+export async function compareDocuments({
+  documents,
+  baseline = 0,
+  apiKey,
+  provider,
+}: {
+  documents: { file: File; payerPlan: PayerPlan }[];
+  baseline?: number;
+  apiKey: string;
+  provider?: ProviderId;
+}): Promise<ComparisonMatrix> {
+  if (documents.length < 2 || documents.length > MAX_COMPARE_DOCUMENTS) {
+    throw new RangeError(`Compare needs 2 to ${MAX_COMPARE_DOCUMENTS} documents, got ${documents.length}`);
+  }
+
+  // Extract all in parallel; report every file that failed, not just the first
+  const settled = await Promise.allSettled(
+    documents.map(({ file, payerPlan }) => extractDocument({ file, payerPlan, apiKey, provider }))
+  );
+  const results = settledResults(settled, documents.map(({ file }) => file.name));
+  return buildComparisonMatrix(
+    documents.map(({ file, payerPlan }) => ({ fileName: file.name, payerPlan })),
+    results,
+    baseline
+  );
+}
+
+// Maintenance: sweeps every provider for remote objects (uploaded PDFs, threads, assistants)
+// that earlier runs failed to delete.
+export async function purgeOrphanedResources({ apiKey }: { apiKey: string }): Promise<PurgeReport> {
+  assertKey(apiKey);
+
+  const total: PurgeReport = { deleted: {}, failed: [] };
+  for (const provider of listProviders()) {
+    if (!provider.purge) continue;
+    const report = await provider.purge(apiKey);
+    for (const [kind, count] of Object.entries(report.deleted)) {
+      total.deleted[kind] = (total.deleted[kind] ?? 0) + count;
+    }
+    total.failed.push(...report.failed);
+  }
+  return total;
+}
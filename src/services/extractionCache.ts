@@ -0,0 +1,59 @@
+// Extraction results keyed by the PDF's content, so uploading the same policy again (single mode,
+// then a comparison) returns instantly instead of paying for another extraction. The key also
+// covers everything that changes the output: payer plan, field schema, model and prompt.
+// IndexedDB in the browser, process memory elsewhere.
+import { FIELD_SCHEMA_VERSION, type ExtractionResult, type PayerPlan } from "@/constants/fields";
+import { EXTRACTIONS_STORE, hasLocalDb, withStore } from "@/services/localDb";
+import { PROMPT_VERSION } from "@/services/prompt";
+
+// use: return a cached result when there is one; refresh: extract again and replace it
+export type CachePolicy = "use" | "refresh";
+
+interface CachedExtraction {
+  key: string;
+  sha256: string;
+  fileName: string;
+  payerPlan: PayerPlan;
+  // ISO timestamp
+  cachedAt: string;
+  result: ExtractionResult;
+}
+
+const memoryCache = new Map<string, CachedExtraction>();
+
+export function extractionCacheKey(sha256: string, payerPlan: PayerPlan, model: string): string {
+  return [sha256, payerPlan, FIELD_SCHEMA_VERSION, model, PROMPT_VERSION].join(":");
+}
+
+export async function readCachedExtraction(key: string): Promise<ExtractionResult | null> {
+  const entry = hasLocalDb()
+    ? await withStore<CachedExtraction | undefined>(EXTRACTIONS_STORE, "readonly", (store) => store.get(key))
+    : memoryCache.get(key);
+  return entry?.result ?? null;
+}
+
+export async function writeCachedExtraction(entry: CachedExtraction): Promise<void> {
+  if (!hasLocalDb()) {
+    memoryCache.set(entry.key, entry);
+    return;
+  }
+  await withStore(EXTRACTIONS_STORE, "readwrite", (store) => store.put(entry));
+}
+
+// Forgets every cached result of one file, whatever plan, model or prompt produced it.
+// Returns how many were removed.
+export async function invalidateCachedExtractions(sha256: string): Promise<number> {
+  if (!hasLocalDb()) {
+    const keys = [...memoryCache.values()].filter((e) => e.sha256 === sha256).map((e) => e.key);
+    keys.forEach((key) => memoryCache.delete(key));
+    return keys.length;
+  }
+  const keys = await withStore(EXTRACTIONS_STORE, "readonly", (store) => store.index("sha256").getAllKeys(sha256));
+  for (const key of keys) await withStore(EXTRACTIONS_STORE, "readwrite", (store) => store.delete(key));
+  return keys.length;
+}
+
+// A cached result keeps the time of its original extraction
+export function isFromCache(result: ExtractionResult, since: Date): boolean {
+  return new Date(result.extractedAt) < since;
+}
@@ -0,0 +1,62 @@
+// Local history of extraction and comparison runs, kept in IndexedDB so results survive a reload
+// and can be reopened without paying for another extraction.
+import type { ComparisonMatrix, ExtractionResult, PayerPlan } from "@/constants/fields";
+import { hashFile } from "@/lib/fileHash";
+import { modelFor } from "@/services/providers";
+import { RUNS_STORE, withStore } from "@/services/localDb";
+
+export interface HistoryFile {
+  name: string;
+  size: number;
+  sha256: string;
+  payerPlan: PayerPlan;
+  model: string;
+}
+
+interface HistoryRunBase {
+  id: string;
+  // ISO timestamp of when the run finished
+  createdAt: string;
+  durationMs: number;
+  schemaVersion: string;
+  files: HistoryFile[];
+}
+
+export type HistoryRun =
+  | (HistoryRunBase & { kind: "single"; result: ExtractionResult })
+  | (HistoryRunBase & { kind: "compare"; matrix: ComparisonMatrix });
+
+export function describeFiles(documents: { file: File; payerPlan: PayerPlan }[]): Promise<HistoryFile[]> {
+  return Promise.all(
+    documents.map(async ({ file, payerPlan }) => ({
+      name: file.name,
+      size: file.size,
+      sha256: await hashFile(file),
+      payerPlan,
+      model: modelFor(payerPlan),
+    }))
+  );
+}
+
+// Inserts or replaces: corrections and baseline changes are saved onto the same run
+export async function saveRun(run: HistoryRun): Promise<void> {
+  await withStore(RUNS_STORE, "readwrite", (store) => store.put(run));
+}
+
+export function getRun(id: string): Promise<HistoryRun | undefined> {
+  return withStore(RUNS_STORE, "readonly", (store) => store.get(id));
+}
+
+// Newest first
+export async function listRuns(): Promise<HistoryRun[]> {
+  const runs = await withStore<HistoryRun[]>(RUNS_STORE, "readonly", (store) => store.index("createdAt").getAll());
+  return runs.reverse();
+}
+
+export async function deleteRun(id: string): Promise<void> {
+  await withStore(RUNS_STORE, "readwrite", (store) => store.delete(id));
+}
+
+export async function clearHistory(): Promise<void> {
+  await withStore(RUNS_STORE, "readwrite", (store) => store.clear());
+}
@@ -0,0 +1,48 @@
+// Extraction jobs as the service (api/) reports them: submitted with POST /jobs, polled with
+// GET /jobs/:id. Shared by the service and its clients.
+import type { ComparisonMatrix, ExtractionResult, PayerPlan } from "@/constants/fields";
+import type { SerializedError } from "@/services/errors";
+
+export type JobKind = "extract" | "compare";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export interface JobDocument {
+  name: string;
+  size: number;
+  sha256: string;
+  payerPlan: PayerPlan;
+  model: string;
+  status: JobStatus;
+  // Filled in as soon as this document is done, before the whole job is
+  result: ExtractionResult | null;
+  error: SerializedError | null;
+}
+
+export interface JobWebhook {
+  url: string;
+  attempts: number;
+  // ISO timestamp; null until a delivery got a 2xx answer
+  deliveredAt: string | null;
+  lastError: string | null;
+}
+
+export interface ExtractionJob {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  // ISO timestamps
+  createdAt: string;
+  updatedAt: string;
+  // Compare jobs only
+  baseline: number;
+  documents: JobDocument[];
+  // extract: the document's ExtractionResult; compare: the matrix once every document succeeded
+  result: ExtractionResult | ComparisonMatrix | null;
+  error: SerializedError | null;
+  webhook: JobWebhook | null;
+}
+
+export function isFinished(job: ExtractionJob): boolean {
+  return job.status === "succeeded" || job.status === "failed";
+}
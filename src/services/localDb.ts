@@ -0,0 +1,52 @@
+// The app's IndexedDB database: run history and the extraction cache. Browser only.
+import { APP_TAG } from "@/services/providers/openaiResources";
+
+const DB_NAME = APP_TAG;
+// 1: runs; 2: extractions
+const DB_VERSION = 2;
+
+export const RUNS_STORE = "runs";
+export const EXTRACTIONS_STORE = "extractions";
+
+let db: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  db ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = ({ oldVersion }) => {
+      const database = request.result;
+      if (oldVersion < 1) {
+        database.createObjectStore(RUNS_STORE, { keyPath: "id" }).createIndex("createdAt", "createdAt");
+      }
+      if (oldVersion < 2) {
+        database.createObjectStore(EXTRACTIONS_STORE, { keyPath: "key" }).createIndex("sha256", "sha256");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      db = null;
+      reject(request.error);
+    };
+  });
+  return db;
+}
+
+export function hasLocalDb(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+// Runs one request in its own transaction and resolves once the transaction has committed
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
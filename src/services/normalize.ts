@@ -0,0 +1,184 @@
+// Parses extracted strings into canonical typed values so that "QAR 100", "100 QAR" and
+// "QR 100.00" (or "20%" and "20 %") compare as equal. The original text is still what the UI shows.
+import type { ValueKind } from "@/constants/fields";
+
+export type CanonicalValue =
+  | { type: "money"; amount: number; currency: string | null }
+  | { type: "percent"; value: number }
+  | { type: "date"; iso: string }
+  | { type: "date_range"; start: string; end: string }
+  // The limit or share that follows the verdict, as in "Covered up to QAR 5,000"
+  | { type: "coverage"; covered: boolean; detail: CanonicalValue | null }
+  | { type: "text"; text: string };
+
+// Spellings seen in Qatari policy schedules, mapped to ISO 4217
+const CURRENCY_ALIASES: Record<string, string> = {
+  qar: "QAR",
+  qr: "QAR",
+  riyal: "QAR",
+  riyals: "QAR",
+  usd: "USD",
+  $: "USD",
+  eur: "EUR",
+  "€": "EUR",
+  gbp: "GBP",
+  "£": "GBP",
+};
+
+const COVERED = /^(?:covered|included|yes|available|payable|applicable)(?:\b|$)(.*)$/;
+// "No" only on its own, so "No charge" and "No limit" are not read as a verdict
+const NOT_COVERED = /^(?:not covered|excluded|not included|no(?=$|[,;:])|not available|not payable|not applicable|n\/a)(?:\b|$)(.*)$/;
+// A deductible or co-pay of "Nil" is a zero amount, not a missing value
+const ZERO = /^(?:nil|none|zero|no charge|free)$/;
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const NUMBER = /\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?/g;
+// Whole words only, so "eur" in "Neurology" is not a currency; "QAR5,000" still counts
+const CURRENCY_TOKEN = /(?<![a-z])(?:qar|qr|riyals?|usd|eur|gbp)(?![a-z])|[$€£]/i;
+
+const NUMERIC_DATE = /\b(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})\b/;
+const DAY_MONTH_YEAR = /\b(\d{1,2})(?:st|nd|rd|th)?[\s-]+([a-z]{3,9})\.?[\s-]+(\d{2,4})\b/i;
+const MONTH_DAY_YEAR = /\b([a-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{2,4})\b/i;
+const ANY_DATE = new RegExp(
+  [NUMERIC_DATE, DAY_MONTH_YEAR, MONTH_DAY_YEAR].map((pattern) => pattern.source).join("|"),
+  "gi"
+);
+
+function plain(raw: string): string {
+  return raw.replace(/\s+/g, " ").trim().toLowerCase().replace(/[.;:,]+$/, "");
+}
+
+function toNumber(digits: string): number {
+  return Number(digits.replace(/,/g, ""));
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+function monthIndex(name: string): number | null {
+  const index = MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+  return index >= 0 ? index + 1 : null;
+}
+
+// Numeric dates are read day-first, as written in Qatar, unless the year comes first
+export function parseDate(raw: string): string | null {
+  let m = raw.match(NUMERIC_DATE);
+  if (m) {
+    const [a, b, c] = m.slice(1).map(Number);
+    return m[1].length === 4 ? isoDate(a, b, c) : isoDate(c, b, a);
+  }
+  m = raw.match(DAY_MONTH_YEAR);
+  if (m) {
+    const month = monthIndex(m[2]);
+    return month ? isoDate(Number(m[3]), month, Number(m[1])) : null;
+  }
+  m = raw.match(MONTH_DAY_YEAR);
+  if (m) {
+    const month = monthIndex(m[1]);
+    return month ? isoDate(Number(m[3]), month, Number(m[2])) : null;
+  }
+  return null;
+}
+
+function parseDateRange(raw: string): CanonicalValue | null {
+  const dates = (raw.match(ANY_DATE) ?? []).map(parseDate);
+  if (dates.length !== 2 || !dates[0] || !dates[1]) return null;
+  return { type: "date_range", start: dates[0], end: dates[1] };
+}
+
+function parseSingleDate(raw: string): CanonicalValue | null {
+  const dates = raw.match(ANY_DATE) ?? [];
+  if (dates.length !== 1) return null;
+  const iso = parseDate(dates[0]);
+  return iso ? { type: "date", iso } : null;
+}
+
+// Only unambiguous values: a single number, so "20% up to QAR 500" stays text
+function parsePercent(raw: string): CanonicalValue | null {
+  if (ZERO.test(plain(raw))) return { type: "percent", value: 0 };
+  const numbers = raw.match(NUMBER) ?? [];
+  const m = raw.match(/(\d+(?:\.\d+)?)\s*(?:%|percent\b)/i);
+  if (!m || numbers.length !== 1) return null;
+  return { type: "percent", value: Number(m[1]) };
+}
+
+function parseMoney(raw: string): CanonicalValue | null {
+  if (ZERO.test(plain(raw))) return { type: "money", amount: 0, currency: null };
+  if (/%/.test(raw)) return null;
+  const numbers = raw.match(NUMBER) ?? [];
+  if (numbers.length !== 1) return null;
+  const token = raw.match(CURRENCY_TOKEN)?.[0].toLowerCase();
+  return { type: "money", amount: toNumber(numbers[0]), currency: token ? CURRENCY_ALIASES[token] : null };
+}
+
+// The verdict and whatever follows it: "Covered at 20% co-insurance" and "Not covered; 20% co-insurance"
+// differ, and so do "Covered up to QAR 5,000" and a bare "QAR 5,000"
+function parseCoverage(raw: string): CanonicalValue | null {
+  const text = plain(raw);
+  const notCovered = text.match(NOT_COVERED);
+  const m = notCovered ?? text.match(COVERED);
+  if (!m) return null;
+  const rest = m[1].replace(/^[\s,;:()–-]+/, "");
+  const detail = rest ? parsePercent(rest) ?? parseMoney(rest) ?? { type: "text" as const, text: rest } : null;
+  return { type: "coverage", covered: !notCovered, detail };
+}
+
+// Parsers tried per kind, most specific first, so a coverage verdict wins over the number it
+// qualifies; anything unparsed falls back to text
+const PARSERS: Record<ValueKind, ((raw: string) => CanonicalValue | null)[]> = {
+  percentage: [parseCoverage, parsePercent],
+  currency: [parseCoverage, parseMoney],
+  date: [parseSingleDate],
+  date_range: [parseDateRange],
+  coverage: [parseCoverage, parsePercent, parseMoney],
+  text: [parseCoverage],
+};
+
+export function normalizeValue(kind: ValueKind, raw: string): CanonicalValue {
+  for (const parse of PARSERS[kind]) {
+    const value = parse(raw);
+    if (value) return value;
+  }
+  return { type: "text", text: plain(raw) };
+}
+
+// Human-readable canonical form, e.g. "QAR 100", "20%", "2024-01-01 – 2024-12-31"
+export function formatCanonical(value: CanonicalValue): string {
+  switch (value.type) {
+    case "money":
+      return value.currency ? `${value.currency} ${value.amount}` : String(value.amount);
+    case "percent":
+      return `${value.value}%`;
+    case "date":
+      return value.iso;
+    case "date_range":
+      return `${value.start} – ${value.end}`;
+    case "coverage": {
+      const verdict = value.covered ? "Covered" : "Not covered";
+      return value.detail ? `${verdict}, ${formatCanonical(value.detail)}` : verdict;
+    }
+    default:
+      return value.text;
+  }
+}
+
+export function canonicalEqual(a: CanonicalValue, b: CanonicalValue): boolean {
+  if (a.type === "money" && b.type === "money") {
+    // A bare amount matches any currency: schedules often state the currency once in a header
+    return a.amount === b.amount && (a.currency === null || b.currency === null || a.currency === b.currency);
+  }
+  if (a.type === "coverage" && b.type === "coverage") {
+    if (a.covered !== b.covered) return false;
+    return a.detail && b.detail ? canonicalEqual(a.detail, b.detail) : a.detail === b.detail;
+  }
+  return a.type === b.type && formatCanonical(a) === formatCanonical(b);
+}
+
+export function valuesEquivalent(kind: ValueKind, a: string, b: string): boolean {
+  return canonicalEqual(normalizeValue(kind, a), normalizeValue(kind, b));
+}
@@ -0,0 +1,153 @@
+// Local PDF text-layer extraction (pdf.js). Runs in the browser and in Node, no network.
+// The legacy build is used because the modern one needs APIs Node 20 does not ship.
+import { getDocument, VerbosityLevel } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import type { BoundingBox } from "@/constants/fields";
+
+// Minimum number of non-whitespace characters per page for the text layer to be
+// considered usable; below that the PDF is most likely a scan.
+const MIN_CHARS_PER_PAGE = 40;
+
+// Items whose baselines are within this many points are treated as one line.
+const LINE_TOLERANCE = 2;
+
+export interface PdfTextItem {
+  str: string;
+  // Top-left origin, in PDF points at scale 1
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfTextLine {
+  text: string;
+  y: number;
+  items: PdfTextItem[];
+}
+
+export interface PdfPageText {
+  pageNumber: number;
+  width: number;
+  height: number;
+  text: string;
+  lines: PdfTextLine[];
+}
+
+export interface PdfDocumentText {
+  pages: PdfPageText[];
+  hasTextLayer: boolean;
+}
+
+function isTextItem(item: unknown): item is TextItem {
+  return typeof (item as TextItem).str === "string";
+}
+
+function groupLines(items: PdfTextItem[]): PdfTextLine[] {
+  const sorted = [...items].sort((a, b) => a.y - b.y || a.x - b.x);
+  const lines: PdfTextLine[] = [];
+
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - item.y) <= LINE_TOLERANCE) {
+      line.items.push(item);
+    } else {
+      lines.push({ text: "", y: item.y, items: [item] });
+    }
+  }
+
+  for (const line of lines) {
+    line.items.sort((a, b) => a.x - b.x);
+    line.text = line.items
+      .map((i) => i.str)
+      .join(" ")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+
+  return lines.filter((l) => l.text.length > 0);
+}
+
+export async function extractPdfText(file: Blob): Promise<PdfDocumentText> {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const pdf = await getDocument({ data, isEvalSupported: false, verbosity: VerbosityLevel.ERRORS }).promise;
+
+  try {
+    const pages: PdfPageText[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+
+      const items: PdfTextItem[] = content.items
+        .filter(isTextItem)
+        .filter((i) => i.str.trim().length > 0)
+        .map((i) => ({
+          str: i.str,
+          x: i.transform[4],
+          y: viewport.height - i.transform[5] - i.height,
+          width: i.width,
+          height: i.height,
+        }));
+
+      const lines = groupLines(items);
+      pages.push({
+        pageNumber,
+        width: viewport.width,
+        height: viewport.height,
+        text: lines.map((l) => l.text).join("\n"),
+        lines,
+      });
+      page.cleanup();
+    }
+
+    const chars = pages.reduce((n, p) => n + p.text.replace(/\s/g, "").length, 0);
+    const hasTextLayer = pages.length > 0 && chars / pages.length >= MIN_CHARS_PER_PAGE;
+
+    return { pages, hasTextLayer };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+export function boundsOf(items: PdfTextItem[]): BoundingBox | null {
+  if (items.length === 0) return null;
+  const x = Math.min(...items.map((i) => i.x));
+  const y = Math.min(...items.map((i) => i.y));
+  const right = Math.max(...items.map((i) => i.x + i.width));
+  const bottom = Math.max(...items.map((i) => i.y + i.height));
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+function squash(text: string): string {
+  return text.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+// Finds the line(s) a quoted snippet came from. The hinted page is searched first since models
+// occasionally cite the wrong page; a quote may span up to three consecutive lines.
+export function locateSnippet(
+  document: PdfDocumentText,
+  snippet: string,
+  pageHint?: number | null
+): { page: number; bbox: BoundingBox | null } | null {
+  const needle = squash(snippet);
+  if (!needle) return null;
+
+  const pages = [...document.pages].sort(
+    (a, b) => Number(b.pageNumber === pageHint) - Number(a.pageNumber === pageHint)
+  );
+
+  for (const page of pages) {
+    for (let i = 0; i < page.lines.length; i++) {
+      for (let span = 1; span <= 3 && i + span <= page.lines.length; span++) {
+        const lines = page.lines.slice(i, i + span);
+        if (squash(lines.map((l) => l.text).join(" ")).includes(needle)) {
+          return { page: page.pageNumber, bbox: boundsOf(lines.flatMap((l) => l.items)) };
+        }
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,70 @@
+// The single or compare run in progress, kept in localStorage while its jobs are on the
+// extraction service so a reload waits for them instead of losing them.
+import type { ComparisonMatrix, ExtractionResult } from "@/constants/fields";
+import { buildComparisonMatrix } from "@/services/compare";
+import { ComparisonFailedError, ExtractionError, settledResults } from "@/services/errors";
+import { extractionCacheKey, readCachedExtraction } from "@/services/extractionCache";
+import { resumeExtractionApi } from "@/services/extractionApi";
+import type { HistoryFile } from "@/services/history";
+import { APP_TAG } from "@/services/providers/openaiResources";
+
+const PENDING_RUN_KEY = `${APP_TAG}:pending-run`;
+
+export interface PendingRun {
+  kind: "single" | "compare";
+  // ISO timestamp
+  startedAt: string;
+  baseline: number;
+  files: HistoryFile[];
+  // Job per file; null until submitted, and for files served from the cache
+  jobIds: (string | null)[];
+}
+
+export type RunOutcome =
+  | { kind: "single"; result: ExtractionResult }
+  | { kind: "compare"; matrix: ComparisonMatrix };
+
+export function loadPendingRun(): PendingRun | null {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_RUN_KEY) ?? "null");
+  } catch {
+    return null;
+  }
+}
+
+export function savePendingRun(run: PendingRun) {
+  localStorage.setItem(PENDING_RUN_KEY, JSON.stringify(run));
+}
+
+export function clearPendingRun() {
+  localStorage.removeItem(PENDING_RUN_KEY);
+}
+
+export async function resumePendingRun(run: PendingRun): Promise<RunOutcome> {
+  const settled = await Promise.allSettled(
+    run.files.map(async ({ sha256, payerPlan, model }, i) => {
+      const jobId = run.jobIds[i];
+      if (jobId) return resumeExtractionApi(jobId);
+      const cached = await readCachedExtraction(extractionCacheKey(sha256, payerPlan, model));
+      if (!cached) throw new ExtractionError("Interrupted before it reached the extraction service; run it again");
+      return cached;
+    })
+  );
+
+  let results: ExtractionResult[];
+  try {
+    results = settledResults(settled, run.files.map(({ name }) => name));
+  } catch (error) {
+    // A single run fails with its document's own error, as extractDataApi does
+    throw run.kind === "single" && error instanceof ComparisonFailedError ? error.failures[0].error : error;
+  }
+  if (run.kind === "single") return { kind: "single", result: results[0] };
+  return {
+    kind: "compare",
+    matrix: buildComparisonMatrix(
+      run.files.map(({ name, payerPlan }) => ({ fileName: name, payerPlan })),
+      results,
+      run.baseline
+    ),
+  };
+}
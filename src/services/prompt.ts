@@ -0,0 +1,137 @@
+// Prompt construction and model-output parsing shared by every LLM-backed provider
+import type { FieldDefinition, ValueKind } from "@/constants/fields";
+import type { PdfDocumentText } from "@/services/pdfText";
+import { ParseError } from "@/services/errors";
+
+// Upper bound on document text inlined into a prompt (~15k tokens).
+const MAX_DOCUMENT_CHARS = 60000;
+
+// Bump whenever the prompt wording changes in a way that should invalidate cached assistants
+export const PROMPT_VERSION = "6";
+
+export const EXTRACTION_INSTRUCTIONS =
+  "You are a precise information extraction engine capable of processing PDF documents, including scanned PDFs with OCR.";
+
+export function formatDocumentText(document: PdfDocumentText): string {
+  let out = "";
+  for (const page of document.pages) {
+    const block = `--- Page ${page.pageNumber} ---\n${page.text}\n\n`;
+    if (out.length + block.length > MAX_DOCUMENT_CHARS) {
+      out += block.slice(0, MAX_DOCUMENT_CHARS - out.length);
+      break;
+    }
+    out += block;
+  }
+  return out.trim();
+}
+
+const KIND_HINTS: Record<ValueKind, string> = {
+  percentage: "a percentage, e.g. 20%",
+  currency: "an amount with its currency, e.g. QAR 100",
+  date: "a date as printed",
+  date_range: "a start and end date as printed",
+  coverage: "whether it is covered, with any limit or condition as printed",
+  text: "text as printed",
+};
+
+function describeField(field: FieldDefinition): string {
+  const parts = [`- ${field.key}: "${field.label}" (${KIND_HINTS[field.kind]})`];
+  if (field.synonyms?.length) parts.push(`also labelled ${field.synonyms.map((s) => `"${s}"`).join(", ")}`);
+  if (field.description) parts.push(field.description);
+  return parts.join("; ");
+}
+
+// Output budget for a prompt asking for this many fields: each answer is an object with value,
+// page, verbatim quote and confidence, so a fixed limit cuts the JSON short on long schedules
+const OUTPUT_TOKENS_BASE = 500;
+const OUTPUT_TOKENS_PER_FIELD = 250;
+// gpt-4o's output ceiling
+const OUTPUT_TOKENS_MAX = 16_384;
+
+export function maxOutputTokens(fieldCount: number): number {
+  return Math.min(OUTPUT_TOKENS_MAX, OUTPUT_TOKENS_BASE + OUTPUT_TOKENS_PER_FIELD * fieldCount);
+}
+
+export function buildPrompt(fields: FieldDefinition[], document?: PdfDocumentText | null): string {
+  const fieldList = fields.map(describeField).join("\n");
+  const source = document ? "the document text below" : "the attached PDF document";
+  const closing = document
+    ? "Document text (page markers added for reference):\n" +
+      `${formatDocumentText(document)}\n\n` +
+      "Output strictly JSON only."
+    : "Analyze the attached PDF and output strictly JSON only.";
+  return (
+    `${EXTRACTION_INSTRUCTIONS}\n` +
+    `Task: Extract the following fields from ${source}.\n` +
+    "Rules:\n" +
+    "- Return JSON only (no prose or explanations).\n" +
+    "- Use EXACT keys from the field list below.\n" +
+    '- For each key return an object: {"value": string or null, "page": page number or null, "quote": the verbatim text the value was read from, or null, "confidence": number from 0 to 1}.\n' +
+    "- confidence is how sure you are that value is correct for that key; use low values for guesses or ambiguous matches.\n" +
+    "- If a field is not clearly present in the document, set its value to null.\n" +
+    "- Prefer the most explicit value near labels, tables, or key-value pairs.\n" +
+    "- Do not invent data.\n" +
+    "- Normalize whitespace and remove unnecessary line breaks.\n" +
+    "- Preserve units, punctuation, and formatting from the source where applicable.\n\n" +
+    "Fields to extract as key: document label (expected value), with alternative labels and hints (keys must match exactly):\n" +
+    `${fieldList}\n\n` +
+    closing
+  );
+}
+
+export function parseJsonOutput(resp: any): Record<string, any> {
+  // Handle different response formats
+  let content = "";
+  
+  if (resp.choices?.[0]?.finish_reason === "length") {
+    throw new ParseError("The model's answer was cut off at the output token limit.");
+  }
+
+  if (resp.choices?.[0]?.message?.content) {
+    // Chat completion format
+    content = resp.choices[0].message.content;
+  } else if (resp.data?.[0]?.content?.[0]?.text?.value) {
+    // Assistants API format
+    content = resp.data[0].content[0].text.value;
+  } else {
+    throw new ParseError("Empty response from OpenAI.");
+  }
+
+  if (!content) throw new ParseError("Empty response from OpenAI.");
+
+  try {
+    return JSON.parse(content);
+  } catch {
+    // Try to extract a JSON block from the text
+    const match = content.match(/\{[\s\S]*\}/);
+    if (match) {
+      try {
+        return JSON.parse(match[0]);
+      } catch (err) {
+        throw new ParseError("Model did not return valid JSON.", { cause: err });
+      }
+    }
+    throw new ParseError("Model did not return valid JSON.");
+  }
+}
+
+export interface FieldOutput {
+  value: string | null;
+  page: number | null;
+  quote: string | null;
+  confidence: number | null;
+}
+
+// Accepts both the cited object form and a bare value (older prompts, or models ignoring the format)
+export function readFieldOutput(raw: unknown): FieldOutput {
+  if (raw === null || raw === undefined) return { value: null, page: null, quote: null, confidence: null };
+  if (typeof raw !== "object") return { value: String(raw), page: null, quote: null, confidence: null };
+
+  const obj = raw as Record<string, unknown>;
+  const value = obj.value === null || obj.value === undefined ? null : String(obj.value);
+  const page = Number.isFinite(Number(obj.page)) && obj.page !== null ? Number(obj.page) : null;
+  const quote = typeof obj.quote === "string" && obj.quote.trim() ? obj.quote : null;
+  const reported = Number(obj.confidence);
+  const confidence = obj.confidence !== null && Number.isFinite(reported) ? Math.min(1, Math.max(0, reported)) : null;
+  return { value, page, quote, confidence };
+}
@@ -0,0 +1,38 @@
+import { PAYER_PLANS, type PayerPlan } from "@/constants/fields";
+import { openAiProvider } from "./openai";
+import { OPENAI_MODELS } from "./openaiAssistant";
+import { rulesProvider } from "./rules";
+import type { ExtractionProvider, ProviderId } from "./types";
+
+export type { ExtractionProvider, ExtractionRequest, ProviderId, ProviderUpload, PurgeReport } from "./types";
+
+const PROVIDERS: Record<ProviderId, ExtractionProvider> = {
+  openai: openAiProvider,
+  rules: rulesProvider,
+};
+
+// Which provider handles each payer plan unless the caller overrides it.
+export const PROVIDER_BY_PLAN: Record<PayerPlan, ProviderId> = {
+  [PAYER_PLANS.QLM]: "openai",
+  [PAYER_PLANS.ALKOOT]: "openai",
+};
+
+export function getProvider(id: ProviderId): ExtractionProvider {
+  const provider = PROVIDERS[id];
+  if (!provider) throw new Error(`Unknown extraction provider: ${id}`);
+  return provider;
+}
+
+export function resolveProvider(payerPlan: PayerPlan, override?: ProviderId): ExtractionProvider {
+  return getProvider(override ?? PROVIDER_BY_PLAN[payerPlan]);
+}
+
+export function listProviders(): ExtractionProvider[] {
+  return Object.values(PROVIDERS);
+}
+
+// Model behind a plan's extractions, recorded with history entries and cache keys
+export function modelFor(payerPlan: PayerPlan, override?: ProviderId): string {
+  const id = override ?? PROVIDER_BY_PLAN[payerPlan];
+  return id === "openai" ? OPENAI_MODELS[payerPlan] : id;
+}
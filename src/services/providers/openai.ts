@@ -0,0 +1,258 @@
+// OpenAI provider: a single chat completion over the local text layer when the PDF has one,
+// otherwise uploads the PDF and runs a file_search thread on the plan's persistent assistant
+import { buildPrompt, maxOutputTokens, parseJsonOutput } from "@/services/prompt";
+import { errorFromResponse, RateLimitError, RunFailedError, UploadError } from "@/services/errors";
+import type { PayerPlan } from "@/constants/fields";
+import { forgetPlanAssistant, getPlanAssistant, isCurrentAssistant, OPENAI_MODELS } from "./openaiAssistant";
+import {
+  APP_TAG,
+  FILE_PREFIX,
+  OPENAI_BASE,
+  purgeOrphanedOpenAiResources,
+  releaseResource,
+  trackResource,
+} from "./openaiResources";
+import type { ExtractionProvider } from "./types";
+
+async function uploadFileToOpenAI(file: File, apiKey: string): Promise<string> {
+  const form = new FormData();
+  form.append("purpose", "assistants");
+  // Prefixed so leftovers can be recognised when purging
+  form.append("file", file, `${FILE_PREFIX}${file.name}`);
+
+  let res: Response;
+  try {
+    res = await fetch(`${OPENAI_BASE}/files`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: form,
+    });
+  } catch (err) {
+    throw new UploadError(`OpenAI file upload failed: ${err instanceof Error ? err.message : err}`, { cause: err });
+  }
+
+  if (!res.ok) {
+    throw await errorFromResponse(res, "OpenAI file upload failed", UploadError);
+  }
+
+  const data = await res.json();
+  trackResource("file", data.id);
+  return data.id as string;
+}
+
+export async function callChatCompletion(params: {
+  apiKey: string;
+  prompt: string;
+  model?: string;
+  maxTokens: number;
+}): Promise<any> {
+  const { apiKey, prompt, model = "gpt-4o", maxTokens } = params;
+
+  const body = {
+    model,
+    messages: [
+      {
+        role: "user",
+        content: prompt,
+      },
+    ],
+    response_format: { type: "json_object" },
+    temperature: 0,
+    max_tokens: maxTokens,
+  };
+
+  const res = await fetch(`${OPENAI_BASE}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!res.ok) {
+    throw await errorFromResponse(res, "OpenAI chat completion error", RunFailedError);
+  }
+
+  const json = await res.json();
+  return json;
+}
+
+// Runs the prompt on the payer plan's persistent assistant
+async function runWithPlanAssistant(params: {
+  apiKey: string;
+  payerPlan: PayerPlan;
+  fileId: string;
+  prompt: string;
+}): Promise<unknown> {
+  const { apiKey, payerPlan, fileId, prompt } = params;
+
+  const assistantId = await getPlanAssistant(apiKey, payerPlan);
+  try {
+    return await runOnThread({ apiKey, assistantId, fileId, prompt });
+  } catch (err) {
+    // The cached assistant was deleted elsewhere: recreate it once and retry
+    if (err instanceof RunFailedError && err.status === 404) {
+      forgetPlanAssistant(payerPlan);
+      const freshId = await getPlanAssistant(apiKey, payerPlan);
+      return runOnThread({ apiKey, assistantId: freshId, fileId, prompt });
+    }
+    throw err;
+  }
+}
+
+// Runs the prompt against one thread and always deletes the thread afterwards
+async function runOnThread(params: {
+  apiKey: string;
+  assistantId: string;
+  fileId: string;
+  prompt: string;
+}): Promise<unknown> {
+  const { apiKey, assistantId, fileId, prompt } = params;
+
+  // Create thread
+  const threadRes = await fetch(`${OPENAI_BASE}/threads`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+      "OpenAI-Beta": "assistants=v2",
+    },
+    body: JSON.stringify({ metadata: { app: APP_TAG } }),
+  });
+
+  if (!threadRes.ok) {
+    throw await errorFromResponse(threadRes, "Thread creation error", RunFailedError);
+  }
+
+  const thread = await threadRes.json();
+  trackResource("thread", thread.id);
+
+  try {
+    // Add message with file attachment
+    const messageRes = await fetch(`${OPENAI_BASE}/threads/${thread.id}/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+        "OpenAI-Beta": "assistants=v2",
+      },
+      body: JSON.stringify({
+        role: "user",
+        content: prompt,
+        attachments: [
+          {
+            file_id: fileId,
+            tools: [{ type: "file_search" }]
+          }
+        ]
+      }),
+    });
+
+    if (!messageRes.ok) {
+      throw await errorFromResponse(messageRes, "Message creation error", RunFailedError);
+    }
+
+    // Create and poll run
+    const runRes = await fetch(`${OPENAI_BASE}/threads/${thread.id}/runs`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+        "OpenAI-Beta": "assistants=v2",
+      },
+      body: JSON.stringify({
+        assistant_id: assistantId,
+      }),
+    });
+
+    if (!runRes.ok) {
+      throw await errorFromResponse(runRes, "Run creation error", RunFailedError);
+    }
+
+    const run = await runRes.json();
+
+    // Poll for completion
+    let runStatus = run;
+    while (runStatus.status === "queued" || runStatus.status === "in_progress") {
+      await new Promise(resolve => setTimeout(resolve, 1000));
+
+      const statusRes = await fetch(`${OPENAI_BASE}/threads/${thread.id}/runs/${run.id}`, {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "OpenAI-Beta": "assistants=v2",
+        },
+      });
+
+      if (!statusRes.ok) {
+        throw await errorFromResponse(statusRes, "Run status check error", RunFailedError);
+      }
+
+      runStatus = await statusRes.json();
+    }
+
+    if (runStatus.status !== "completed") {
+      const reason = runStatus.last_error?.message ? ` (${runStatus.last_error.message})` : "";
+      if (runStatus.last_error?.code === "rate_limit_exceeded") {
+        throw new RateLimitError(`Run failed with status: ${runStatus.status}${reason}`);
+      }
+      throw new RunFailedError(`Run failed with status: ${runStatus.status}${reason}`, { runStatus: runStatus.status });
+    }
+
+    // Get messages
+    const messagesRes = await fetch(`${OPENAI_BASE}/threads/${thread.id}/messages`, {
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "OpenAI-Beta": "assistants=v2",
+      },
+    });
+
+    if (!messagesRes.ok) {
+      throw await errorFromResponse(messagesRes, "Messages retrieval error", RunFailedError);
+    }
+
+    return await messagesRes.json();
+  } finally {
+    await releaseResource("thread", thread.id, apiKey);
+  }
+}
+
+export const openAiProvider: ExtractionProvider = {
+  id: "openai",
+  label: "OpenAI",
+
+  async upload({ file, apiKey, document }) {
+    // Nothing to upload when the prompt can carry the page text itself
+    if (document?.hasTextLayer) return { providerId: "openai", fileId: null };
+    const fileId = await uploadFileToOpenAI(file, apiKey);
+    return { providerId: "openai", fileId };
+  },
+
+  async extract(upload, { apiKey, payerPlan, fields, document }) {
+    if (!upload.fileId) {
+      const prompt = buildPrompt(fields, document);
+      const response = await callChatCompletion({
+        apiKey,
+        prompt,
+        model: OPENAI_MODELS[payerPlan],
+        maxTokens: maxOutputTokens(fields.length),
+      });
+      return parseJsonOutput(response);
+    }
+
+    const prompt = buildPrompt(fields);
+    const response = await runWithPlanAssistant({ apiKey, payerPlan, fileId: upload.fileId, prompt });
+    return parseJsonOutput(response);
+  },
+
+  async cleanup(upload, { apiKey }) {
+    if (upload.fileId) await releaseResource("file", upload.fileId, apiKey);
+  },
+
+  async purge(apiKey) {
+    // The persistent per-plan assistants are in use, not orphaned
+    return purgeOrphanedOpenAiResources(apiKey, { keepAssistant: isCurrentAssistant });
+  },
+};
@@ -0,0 +1,153 @@
+// One long-lived assistant per payer plan, reused across extractions instead of creating and
+// deleting an assistant for every PDF. Each assistant is stamped with a fingerprint of its
+// model and prompt; when either changes a fresh one is created and the stale one deleted.
+import { PAYER_PLANS, type PayerPlan } from "@/constants/fields";
+import { errorFromResponse, RunFailedError } from "@/services/errors";
+import { EXTRACTION_INSTRUCTIONS, PROMPT_VERSION } from "@/services/prompt";
+import { APP_TAG, OPENAI_BASE, listAll, releaseResource, type ListedAssistant } from "./openaiResources";
+
+// Model used for each payer plan, by both the assistants and the chat-completion path
+export const OPENAI_MODELS: Record<PayerPlan, string> = {
+  [PAYER_PLANS.QLM]: "gpt-4o",
+  [PAYER_PLANS.ALKOOT]: "gpt-4o",
+};
+
+interface CachedAssistant {
+  id: string;
+  fingerprint: string;
+}
+
+const CACHE_KEY = `${APP_TAG}:assistants`;
+
+// Assistants confirmed to exist during this session
+const verified = new Map<PayerPlan, CachedAssistant>();
+// Concurrent extractions (compare mode) share one lookup instead of racing to create two
+const pending = new Map<PayerPlan, Promise<string>>();
+
+function hashString(value: string): string {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(16);
+}
+
+export function assistantFingerprint(payerPlan: PayerPlan): string {
+  return `${OPENAI_MODELS[payerPlan]}:${PROMPT_VERSION}:${hashString(EXTRACTION_INSTRUCTIONS)}`;
+}
+
+// True for assistants that are the current persistent assistant of some plan
+export function isCurrentAssistant(assistant: ListedAssistant): boolean {
+  const plan = assistant.metadata?.payer_plan as PayerPlan | undefined;
+  return !!plan && plan in OPENAI_MODELS && assistant.metadata?.fingerprint === assistantFingerprint(plan);
+}
+
+function readStoredCache(payerPlan: PayerPlan): CachedAssistant | null {
+  if (typeof localStorage === "undefined") return null;
+  try {
+    const all: Record<string, CachedAssistant> = JSON.parse(localStorage.getItem(CACHE_KEY) ?? "{}");
+    return all[payerPlan] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function writeStoredCache(payerPlan: PayerPlan, entry: CachedAssistant | null) {
+  if (typeof localStorage === "undefined") return;
+  let all: Record<string, CachedAssistant> = {};
+  try {
+    all = JSON.parse(localStorage.getItem(CACHE_KEY) ?? "{}");
+  } catch {
+    // Corrupt cache: start over
+  }
+  if (entry) all[payerPlan] = entry;
+  else delete all[payerPlan];
+  localStorage.setItem(CACHE_KEY, JSON.stringify(all));
+}
+
+async function assistantExists(id: string, apiKey: string): Promise<boolean> {
+  const res = await fetch(`${OPENAI_BASE}/assistants/${id}`, {
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "OpenAI-Beta": "assistants=v2",
+    },
+  });
+  if (res.status === 404) return false;
+  if (!res.ok) {
+    throw await errorFromResponse(res, "Assistant lookup error", RunFailedError);
+  }
+  return true;
+}
+
+async function createAssistant(apiKey: string, payerPlan: PayerPlan, fingerprint: string): Promise<string> {
+  // Create assistant with file search capability
+  const res = await fetch(`${OPENAI_BASE}/assistants`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+      "OpenAI-Beta": "assistants=v2",
+    },
+    body: JSON.stringify({
+      model: OPENAI_MODELS[payerPlan],
+      name: `${APP_TAG} ${payerPlan}`,
+      instructions: EXTRACTION_INSTRUCTIONS,
+      metadata: { app: APP_TAG, payer_plan: payerPlan, prompt_version: PROMPT_VERSION, fingerprint },
+      tools: [{ type: "file_search" }],
+      tool_resources: {
+        file_search: {
+          vector_store_ids: []
+        }
+      }
+    }),
+  });
+
+  if (!res.ok) {
+    throw await errorFromResponse(res, "Assistant creation error", RunFailedError);
+  }
+
+  const assistant = await res.json();
+  return assistant.id as string;
+}
+
+async function resolveAssistant(apiKey: string, payerPlan: PayerPlan): Promise<string> {
+  const fingerprint = assistantFingerprint(payerPlan);
+
+  const known = verified.get(payerPlan);
+  if (known?.fingerprint === fingerprint) return known.id;
+
+  const stored = readStoredCache(payerPlan);
+  let id: string | null = null;
+
+  if (stored?.fingerprint === fingerprint && (await assistantExists(stored.id, apiKey))) {
+    id = stored.id;
+  } else {
+    // Another tab or server instance may already have created the current assistant
+    const assistants = await listAll<ListedAssistant>("assistants", apiKey);
+    const existing = assistants.find(
+      (a) => a.metadata?.app === APP_TAG && a.metadata?.payer_plan === payerPlan && a.metadata?.fingerprint === fingerprint
+    );
+    id = existing?.id ?? (await createAssistant(apiKey, payerPlan, fingerprint));
+
+    // The prompt or model changed: the old assistant is no longer useful
+    if (stored && stored.id !== id) await releaseResource("assistant", stored.id, apiKey);
+  }
+
+  const entry = { id, fingerprint };
+  verified.set(payerPlan, entry);
+  writeStoredCache(payerPlan, entry);
+  return id;
+}
+
+export async function getPlanAssistant(apiKey: string, payerPlan: PayerPlan): Promise<string> {
+  const inFlight = pending.get(payerPlan);
+  if (inFlight) return inFlight;
+
+  const lookup = resolveAssistant(apiKey, payerPlan).finally(() => pending.delete(payerPlan));
+  pending.set(payerPlan, lookup);
+  return lookup;
+}
+
+// Drop a cached assistant that turned out to be gone (e.g. deleted from another machine)
+export function forgetPlanAssistant(payerPlan: PayerPlan) {
+  verified.delete(payerPlan);
+  writeStoredCache(payerPlan, null);
+}
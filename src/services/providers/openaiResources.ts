@@ -0,0 +1,180 @@
+// Bookkeeping for the OpenAI objects this tool creates (uploaded PDFs, threads, assistants).
+// Uploaded policy PDFs carry member PHI, so every object is tagged, recorded in a local ledger
+// until it is deleted, and can be swept by purgeOrphanedOpenAiResources.
+import { errorFromResponse, ExtractionError } from "@/services/errors";
+import type { PurgeReport } from "./types";
+
+// Overridable for OpenAI-compatible gateways and for the offline mock in test/ (npm run mock:openai)
+export const OPENAI_BASE: string =
+  (typeof process !== "undefined" && process.env.OPENAI_BASE) || "https://api.openai.com/v1";
+
+// Set as metadata on assistants/threads and as a filename prefix on uploads (files have no metadata)
+export const APP_TAG = "payer-plan-compare";
+export const FILE_PREFIX = `${APP_TAG}__`;
+
+export type OpenAiResourceKind = "file" | "thread" | "assistant";
+
+const RESOURCE_PATHS: Record<OpenAiResourceKind, string> = {
+  file: "files",
+  thread: "threads",
+  assistant: "assistants",
+};
+
+const LEDGER_KEY = `${APP_TAG}:openai-resources`;
+
+// Objects older than this are assumed to belong to runs that died without cleaning up
+const ORPHAN_AGE_MS = 60 * 60 * 1000;
+
+export interface LedgerEntry {
+  kind: OpenAiResourceKind;
+  id: string;
+  createdAt: number;
+}
+
+// Where the ledger is kept. Synchronous so tracking never waits on storage; the extraction
+// service (api/) installs a file-backed store with setLedgerStore
+export interface LedgerStore {
+  read(): LedgerEntry[];
+  write(entries: LedgerEntry[]): void;
+}
+
+// localStorage in the browser, process memory elsewhere until a store is set
+function defaultLedgerStore(): LedgerStore {
+  if (typeof localStorage === "undefined") {
+    let entries: LedgerEntry[] = [];
+    return { read: () => entries, write: (next) => (entries = next) };
+  }
+  return {
+    read() {
+      try {
+        return JSON.parse(localStorage.getItem(LEDGER_KEY) ?? "[]");
+      } catch {
+        return [];
+      }
+    },
+    write(entries) {
+      localStorage.setItem(LEDGER_KEY, JSON.stringify(entries));
+    },
+  };
+}
+
+let ledgerStore = defaultLedgerStore();
+
+export function setLedgerStore(store: LedgerStore) {
+  ledgerStore = store;
+}
+
+function readLedger(): Map<string, LedgerEntry> {
+  return new Map(ledgerStore.read().map((e) => [e.id, e]));
+}
+
+function writeLedger(ledger: Map<string, LedgerEntry>) {
+  ledgerStore.write([...ledger.values()]);
+}
+
+export function trackResource(kind: OpenAiResourceKind, id: string) {
+  const ledger = readLedger();
+  ledger.set(id, { kind, id, createdAt: Date.now() });
+  writeLedger(ledger);
+}
+
+function untrackResource(id: string) {
+  const ledger = readLedger();
+  if (ledger.delete(id)) writeLedger(ledger);
+}
+
+export async function deleteResource(kind: OpenAiResourceKind, id: string, apiKey: string): Promise<void> {
+  const res = await fetch(`${OPENAI_BASE}/${RESOURCE_PATHS[kind]}/${id}`, {
+    method: "DELETE",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "OpenAI-Beta": "assistants=v2",
+    },
+  });
+
+  // Already gone counts as deleted
+  if (!res.ok && res.status !== 404) {
+    throw await errorFromResponse(res, `OpenAI ${kind} deletion failed`, ExtractionError);
+  }
+  untrackResource(id);
+}
+
+// Best-effort delete for finally-blocks: never masks the error that got us there
+export async function releaseResource(kind: OpenAiResourceKind, id: string, apiKey: string): Promise<void> {
+  try {
+    await deleteResource(kind, id, apiKey);
+  } catch (err) {
+    console.warn(`Could not delete OpenAI ${kind} ${id}; it stays in the ledger for purging:`, err);
+  }
+}
+
+export async function listAll<T>(path: string, apiKey: string): Promise<T[]> {
+  const items: T[] = [];
+  let after: string | undefined;
+
+  for (;;) {
+    const url = new URL(`${OPENAI_BASE}/${path}`);
+    url.searchParams.set("limit", "100");
+    if (after) url.searchParams.set("after", after);
+
+    const res = await fetch(url.toString(), {
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "OpenAI-Beta": "assistants=v2",
+      },
+    });
+    if (!res.ok) {
+      throw await errorFromResponse(res, `OpenAI ${path} listing failed`, ExtractionError);
+    }
+
+    const page = await res.json();
+    items.push(...(page.data as T[]));
+    if (!page.has_more || !page.last_id) return items;
+    after = page.last_id;
+  }
+}
+
+export interface ListedAssistant {
+  id: string;
+  metadata?: Record<string, string>;
+  created_at: number;
+}
+
+export async function purgeOrphanedOpenAiResources(
+  apiKey: string,
+  {
+    olderThanMs = ORPHAN_AGE_MS,
+    keepAssistant = () => false,
+  }: { olderThanMs?: number; keepAssistant?: (assistant: ListedAssistant) => boolean } = {}
+): Promise<PurgeReport> {
+  const cutoff = Date.now() - olderThanMs;
+  const candidates = new Map<string, OpenAiResourceKind>();
+
+  // Threads cannot be listed through the API, so the ledger is the only record of them
+  for (const entry of readLedger().values()) {
+    if (entry.createdAt <= cutoff) candidates.set(entry.id, entry.kind);
+  }
+
+  const files = await listAll<{ id: string; filename: string; created_at: number }>("files", apiKey);
+  for (const f of files) {
+    if (f.filename?.startsWith(FILE_PREFIX) && f.created_at * 1000 <= cutoff) candidates.set(f.id, "file");
+  }
+
+  const assistants = await listAll<ListedAssistant>("assistants", apiKey);
+  for (const a of assistants) {
+    if (a.metadata?.app !== APP_TAG || keepAssistant(a)) continue;
+    if (a.created_at * 1000 <= cutoff) candidates.set(a.id, "assistant");
+  }
+
+  const report: PurgeReport = { deleted: { file: 0, thread: 0, assistant: 0 }, failed: [] };
+  for (const [id, kind] of candidates) {
+    try {
+      await deleteResource(kind, id, apiKey);
+      report.deleted[kind]++;
+    } catch (err) {
+      report.failed.push({ kind, id, message: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,22 @@
+// Offline provider backed by the deterministic label/value rules; never calls a model
+import { extractWithRules } from "@/services/ruleExtractor";
+import type { ExtractionProvider } from "./types";
+
+export const rulesProvider: ExtractionProvider = {
+  id: "rules",
+  label: "Rules engine (offline)",
+
+  async upload() {
+    return { providerId: "rules", fileId: null };
+  },
+
+  async extract(_upload, { fields, document }) {
+    if (!document) return {};
+    const matches = extractWithRules(fields, document);
+    return Object.fromEntries(
+      Object.entries(matches).map(([field, m]) => [field, { value: m.value, page: m.pageNumber, quote: m.snippet }])
+    );
+  },
+
+  async cleanup() {},
+};
@@ -0,0 +1,37 @@
+import type { FieldDefinition, PayerPlan } from "@/constants/fields";
+import type { PdfDocumentText } from "@/services/pdfText";
+
+export type ProviderId = "openai" | "rules";
+
+export interface ExtractionRequest {
+  file: File;
+  payerPlan: PayerPlan;
+  fields: FieldDefinition[];
+  apiKey: string;
+  // Local text layer parsed before any provider call; null when the PDF could not be read
+  document: PdfDocumentText | null;
+}
+
+// Whatever a provider needs to remember between upload, extract and cleanup
+// (remote file ids, local buffers, ...). Opaque to the caller.
+export interface ProviderUpload {
+  providerId: ProviderId;
+  fileId: string | null;
+}
+
+export interface PurgeReport {
+  deleted: Record<string, number>;
+  failed: { kind: string; id: string; message: string }[];
+}
+
+export interface ExtractionProvider {
+  id: ProviderId;
+  label: string;
+  upload(request: ExtractionRequest): Promise<ProviderUpload>;
+  // Returns the raw key/value object produced by the provider; the caller
+  // reconciles it against the expected field list.
+  extract(upload: ProviderUpload, request: ExtractionRequest): Promise<Record<string, unknown>>;
+  cleanup(upload: ProviderUpload, request: ExtractionRequest): Promise<void>;
+  // Maintenance: delete remote objects left behind by runs that never reached cleanup
+  purge?(apiKey: string): Promise<PurgeReport>;
+}
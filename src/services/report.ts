@@ -0,0 +1,454 @@
+// Printable comparison report for clients: cover page, summary of differences, the full field
+// table colored like the results table, and per-page footnotes citing where each value was read.
+// Built with pdf-lib and the standard PDF fonts, so it renders in the browser or in Node without
+// any external service.
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage, type RGB } from "pdf-lib";
+import type { ComparisonCell, ComparisonMatrix, ComparisonStatus } from "@/constants/fields";
+import { DIFFERENCE_STATUSES, STATUS_FILL_COLORS, countDifferences } from "@/services/compare";
+
+// A4 landscape: wide enough for up to ten document columns
+const PAGE_WIDTH = 841.89;
+const PAGE_HEIGHT = 595.28;
+const MARGIN = 40;
+const HEADER_HEIGHT = 28;
+const FOOTER_HEIGHT = 20;
+const CONTENT_TOP = PAGE_HEIGHT - MARGIN - HEADER_HEIGHT;
+const CONTENT_BOTTOM = MARGIN + FOOTER_HEIGHT;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+
+const FIELD_COLUMN_WIDTH = 150;
+const CELL_PADDING = 4;
+const MAX_CELL_LINES = 10;
+const FOOTNOTE_SIZE = 7;
+const MAX_SNIPPET_CHARS = 180;
+
+const BRAND_NAME = "Rapid Extractor";
+
+function hexColor(hex: string): RGB {
+  const channel = (offset: number) => parseInt(hex.slice(offset, offset + 2), 16) / 255;
+  return rgb(channel(0), channel(2), channel(4));
+}
+
+const COLORS = {
+  brand: hexColor("227DEC"),
+  text: hexColor("1F2937"),
+  muted: hexColor("6B7280"),
+  border: hexColor("D9DDE3"),
+  headerFill: hexColor("F3F4F6"),
+  white: rgb(1, 1, 1),
+};
+
+const STATUS_LABELS: Record<ComparisonStatus, string> = {
+  same: "Same",
+  equivalent: "Equivalent",
+  conflicting: "Conflicting",
+  added: "Added",
+  removed: "Removed",
+  missing: "Missing",
+  not_applicable: "Not applicable",
+};
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+}
+
+interface Footnote {
+  number: number;
+  text: string;
+}
+
+interface Layout {
+  doc: PDFDocument;
+  fonts: Fonts;
+  page: PDFPage;
+  y: number;
+  // Footnotes cited on the current page, drawn above its footer once the page is full
+  footnotes: Footnote[];
+}
+
+// The standard fonts only cover WinAnsi; anything else (e.g. Arabic names) would throw
+function printable(font: PDFFont, text: string): string {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text.replace(/\s+/g, " ").trim())
+    .map((char) => (supported.has(char.codePointAt(0) ?? 0) ? char : "?"))
+    .join("");
+}
+
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of printable(font, text).split(" ")) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    // Break words longer than the column (policy numbers, URLs)
+    line = word;
+    while (font.widthOfTextAtSize(line, size) > maxWidth && line.length > 1) {
+      let cut = line.length - 1;
+      while (cut > 1 && font.widthOfTextAtSize(line.slice(0, cut), size) > maxWidth) cut--;
+      lines.push(line.slice(0, cut));
+      line = line.slice(cut);
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+function lineHeight(size: number): number {
+  return size * 1.3;
+}
+
+function footnoteLines(layout: Layout, footnote: Footnote): string[] {
+  return wrapText(`[${footnote.number}] ${footnote.text}`, layout.fonts.regular, FOOTNOTE_SIZE, CONTENT_WIDTH);
+}
+
+function footnotesHeight(layout: Layout, footnotes: Footnote[]): number {
+  if (footnotes.length === 0) return 0;
+  const lines = footnotes.reduce((sum, f) => sum + footnoteLines(layout, f).length, 0);
+  return lines * lineHeight(FOOTNOTE_SIZE) + 10;
+}
+
+function drawFootnotes(layout: Layout) {
+  if (layout.footnotes.length === 0) return;
+  const { page, fonts } = layout;
+  let y = CONTENT_BOTTOM + footnotesHeight(layout, layout.footnotes) - 6;
+  page.drawLine({
+    start: { x: MARGIN, y: y + 4 },
+    end: { x: MARGIN + 120, y: y + 4 },
+    thickness: 0.5,
+    color: COLORS.border,
+  });
+  for (const footnote of layout.footnotes) {
+    for (const line of footnoteLines(layout, footnote)) {
+      y -= lineHeight(FOOTNOTE_SIZE);
+      page.drawText(line, { x: MARGIN, y, size: FOOTNOTE_SIZE, font: fonts.regular, color: COLORS.muted });
+    }
+  }
+  layout.footnotes = [];
+}
+
+// Content page with the brand header
+function addPage(doc: PDFDocument, fonts: Fonts): PDFPage {
+  const page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  page.drawText(BRAND_NAME, {
+    x: MARGIN,
+    y: PAGE_HEIGHT - MARGIN - 10,
+    size: 10,
+    font: fonts.bold,
+    color: COLORS.brand,
+  });
+  page.drawLine({
+    start: { x: MARGIN, y: PAGE_HEIGHT - MARGIN - 16 },
+    end: { x: PAGE_WIDTH - MARGIN, y: PAGE_HEIGHT - MARGIN - 16 },
+    thickness: 1,
+    color: COLORS.brand,
+  });
+  return page;
+}
+
+function newPage(layout: Layout) {
+  drawFootnotes(layout);
+  layout.page = addPage(layout.doc, layout.fonts);
+  layout.y = CONTENT_TOP;
+}
+
+// Starts a new page unless `height` (plus any footnotes already cited) still fits
+function ensureSpace(layout: Layout, height: number, extraFootnotes: Footnote[] = []) {
+  const reserved = footnotesHeight(layout, [...layout.footnotes, ...extraFootnotes]);
+  if (layout.y - height < CONTENT_BOTTOM + reserved) newPage(layout);
+}
+
+function drawParagraph(
+  layout: Layout,
+  text: string,
+  { size = 10, font = layout.fonts.regular, color = COLORS.text } = {}
+) {
+  for (const line of wrapText(text, font, size, CONTENT_WIDTH)) {
+    ensureSpace(layout, lineHeight(size));
+    layout.y -= lineHeight(size);
+    layout.page.drawText(line, { x: MARGIN, y: layout.y, size, font, color });
+  }
+}
+
+function drawHeading(layout: Layout, text: string) {
+  ensureSpace(layout, 40);
+  layout.y -= 24;
+  layout.page.drawText(printable(layout.fonts.bold, text), {
+    x: MARGIN,
+    y: layout.y,
+    size: 14,
+    font: layout.fonts.bold,
+    color: COLORS.text,
+  });
+  layout.y -= 6;
+}
+
+function drawCover(layout: Layout, matrix: ComparisonMatrix, generatedAt: Date) {
+  const { page, fonts } = layout;
+  page.drawRectangle({ x: 0, y: PAGE_HEIGHT - 140, width: PAGE_WIDTH, height: 140, color: COLORS.brand });
+  page.drawText(BRAND_NAME, { x: MARGIN, y: PAGE_HEIGHT - 60, size: 14, font: fonts.bold, color: COLORS.white });
+  page.drawText("Benefits Comparison Report", {
+    x: MARGIN,
+    y: PAGE_HEIGHT - 100,
+    size: 28,
+    font: fonts.bold,
+    color: COLORS.white,
+  });
+  page.drawText(`Generated ${generatedAt.toISOString().slice(0, 10)}`, {
+    x: MARGIN,
+    y: PAGE_HEIGHT - 124,
+    size: 11,
+    font: fonts.regular,
+    color: COLORS.white,
+  });
+
+  layout.y = PAGE_HEIGHT - 170;
+  drawHeading(layout, "Documents compared");
+  matrix.documents.forEach(({ fileName, payerPlan }, i) => {
+    const baseline = i === matrix.baseline ? " (baseline)" : "";
+    drawParagraph(layout, `${i + 1}. ${fileName} - ${payerPlan}${baseline}`, { size: 11 });
+  });
+  layout.y -= 8;
+  drawParagraph(
+    layout,
+    "Every document is compared with the baseline. Values that only differ in formatting " +
+      '("QAR 100" and "100 QAR") are reported as equivalent. Numbers in brackets refer to the ' +
+      "source citations at the bottom of each page.",
+    { size: 9, color: COLORS.muted }
+  );
+}
+
+function drawSummary(layout: Layout, matrix: ComparisonMatrix) {
+  drawHeading(layout, "Summary of differences");
+  const differences = countDifferences(matrix);
+  matrix.documents.forEach(({ fileName }, i) => {
+    if (i === matrix.baseline) return;
+    const counts = DIFFERENCE_STATUSES.map((status) => {
+      const n = matrix.rows.filter((row) => row.cells[i].status === status).length;
+      return `${n} ${STATUS_LABELS[status].toLowerCase()}`;
+    });
+    const total = `${differences[i]} difference${differences[i] === 1 ? "" : "s"}`;
+    drawParagraph(layout, `${fileName}: ${total} (${counts.join(", ")})`, { size: 10 });
+  });
+
+  const changed = matrix.rows.filter((row) =>
+    row.cells.some((cell, i) => i !== matrix.baseline && DIFFERENCE_STATUSES.includes(cell.status))
+  );
+  if (changed.length === 0) {
+    layout.y -= 6;
+    drawParagraph(layout, "No differences from the baseline.", { size: 10, color: COLORS.muted });
+    return;
+  }
+
+  layout.y -= 6;
+  drawParagraph(layout, "Fields that differ from the baseline:", { size: 10, font: layout.fonts.bold });
+  for (const row of changed) {
+    const base = row.cells[matrix.baseline].value ?? "not stated";
+    const others = row.cells
+      .map((cell, i) => ({ cell, i }))
+      .filter(({ cell, i }) => i !== matrix.baseline && DIFFERENCE_STATUSES.includes(cell.status))
+      .map(({ cell, i }) => `${matrix.documents[i].fileName}: ${cell.value ?? "not stated"}`);
+    drawParagraph(layout, `- ${row.label}: baseline ${base}; ${others.join("; ")}`, { size: 9 });
+  }
+}
+
+interface CellLayout {
+  lines: string[];
+  font: PDFFont;
+  statusLine?: string;
+  fill: RGB | null;
+}
+
+function layoutCell(
+  layout: Layout,
+  cell: ComparisonCell,
+  isBaseline: boolean,
+  width: number,
+  size: number,
+  footnote: Footnote | null
+): CellLayout {
+  const { fonts } = layout;
+  const marker = footnote ? ` [${footnote.number}]` : "";
+  const text = cell.value ? `${cell.value}${marker}` : cell.source === null ? "Not in schedule" : "Not found";
+  const font = cell.value ? fonts.regular : fonts.italic;
+  const showStatus = !isBaseline && !["same", "missing", "not_applicable"].includes(cell.status);
+  const fill = isBaseline ? null : STATUS_FILL_COLORS[cell.status];
+  return {
+    lines: wrapText(text, font, size, width - 2 * CELL_PADDING).slice(0, MAX_CELL_LINES),
+    font,
+    statusLine: showStatus ? STATUS_LABELS[cell.status] : undefined,
+    fill: fill ? hexColor(fill) : null,
+  };
+}
+
+function citationFor(matrix: ComparisonMatrix, cell: ComparisonCell, i: number, label: string): string | null {
+  if (!cell.value || !cell.evidence) return null;
+  const { page, snippet } = cell.evidence;
+  if (!page && !snippet) return null;
+  const where = page ? `p. ${page}` : "page unknown";
+  const quote = snippet
+    ? `: "${snippet.length > MAX_SNIPPET_CHARS ? `${snippet.slice(0, MAX_SNIPPET_CHARS)}...` : snippet}"`
+    : "";
+  return `${label}, ${matrix.documents[i].fileName}, ${where}${quote}`;
+}
+
+function drawTable(layout: Layout, matrix: ComparisonMatrix) {
+  const { fonts } = layout;
+  const count = matrix.documents.length;
+  const size = count <= 4 ? 8 : 7;
+  const columnWidth = (CONTENT_WIDTH - FIELD_COLUMN_WIDTH) / count;
+  const columnX = (i: number) => MARGIN + FIELD_COLUMN_WIDTH + i * columnWidth;
+  let nextFootnote = 1;
+
+  const drawHeaderRow = () => {
+    const headers = matrix.documents.map(({ fileName, payerPlan }, i) =>
+      wrapText(
+        `${fileName} (${payerPlan}${i === matrix.baseline ? ", baseline" : ""})`,
+        fonts.bold,
+        size,
+        columnWidth - 2 * CELL_PADDING
+      ).slice(0, 4)
+    );
+    const height = Math.max(...headers.map((lines) => lines.length)) * lineHeight(size) + 2 * CELL_PADDING;
+    ensureSpace(layout, height);
+    const top = layout.y;
+    layout.page.drawRectangle({ x: MARGIN, y: top - height, width: CONTENT_WIDTH, height, color: COLORS.headerFill });
+    layout.page.drawText("Field", {
+      x: MARGIN + CELL_PADDING,
+      y: top - CELL_PADDING - size,
+      size,
+      font: fonts.bold,
+      color: COLORS.text,
+    });
+    headers.forEach((lines, i) => {
+      lines.forEach((line, l) => {
+        layout.page.drawText(line, {
+          x: columnX(i) + CELL_PADDING,
+          y: top - CELL_PADDING - size - l * lineHeight(size),
+          size,
+          font: fonts.bold,
+          color: COLORS.text,
+        });
+      });
+    });
+    layout.y -= height;
+  };
+
+  drawHeading(layout, "All fields");
+  drawHeaderRow();
+
+  for (const row of matrix.rows) {
+    // Number citations provisionally; they are only kept once the row is drawn
+    const footnotes: (Footnote | null)[] = row.cells.map((cell, i) => {
+      const text = citationFor(matrix, cell, i, row.label);
+      return text ? { number: 0, text } : null;
+    });
+    let n = nextFootnote;
+    for (const f of footnotes) if (f) f.number = n++;
+
+    const cells = row.cells.map((cell, i) =>
+      layoutCell(layout, cell, i === matrix.baseline, columnWidth, size, footnotes[i])
+    );
+    const labelLines = wrapText(row.label, fonts.bold, size, FIELD_COLUMN_WIDTH - 2 * CELL_PADDING);
+    const lineCount = Math.max(labelLines.length, ...cells.map((c) => c.lines.length + (c.statusLine ? 1 : 0)));
+    const height = lineCount * lineHeight(size) + 2 * CELL_PADDING;
+    const cited = footnotes.filter((f): f is Footnote => f !== null);
+
+    const pageBefore = layout.page;
+    ensureSpace(layout, height, cited);
+    if (layout.page !== pageBefore) drawHeaderRow();
+
+    const top = layout.y;
+    const textY = (line: number) => top - CELL_PADDING - size - line * lineHeight(size);
+    cells.forEach((cell, i) => {
+      if (cell.fill) {
+        layout.page.drawRectangle({ x: columnX(i), y: top - height, width: columnWidth, height, color: cell.fill });
+      }
+      cell.lines.forEach((line, l) => {
+        layout.page.drawText(line, {
+          x: columnX(i) + CELL_PADDING,
+          y: textY(l),
+          size,
+          font: cell.font,
+          color: cell.font === fonts.italic ? COLORS.muted : COLORS.text,
+        });
+      });
+      if (cell.statusLine) {
+        layout.page.drawText(cell.statusLine, {
+          x: columnX(i) + CELL_PADDING,
+          y: textY(cell.lines.length),
+          size,
+          font: fonts.bold,
+          color: COLORS.muted,
+        });
+      }
+    });
+    labelLines.forEach((line, l) => {
+      layout.page.drawText(line, {
+        x: MARGIN + CELL_PADDING,
+        y: textY(l),
+        size,
+        font: fonts.bold,
+        color: COLORS.text,
+      });
+    });
+    layout.page.drawLine({
+      start: { x: MARGIN, y: top - height },
+      end: { x: PAGE_WIDTH - MARGIN, y: top - height },
+      thickness: 0.5,
+      color: COLORS.border,
+    });
+
+    layout.y -= height;
+    layout.footnotes.push(...cited);
+    nextFootnote = n;
+  }
+}
+
+function drawPageFooters(doc: PDFDocument, font: PDFFont) {
+  const pages = doc.getPages();
+  pages.forEach((page, i) => {
+    const text = `${BRAND_NAME} - Benefits comparison - Page ${i + 1} of ${pages.length}`;
+    page.drawText(text, {
+      x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(text, 8),
+      y: MARGIN - 10,
+      size: 8,
+      font,
+      color: COLORS.muted,
+    });
+  });
+}
+
+export async function buildComparisonReport(
+  matrix: ComparisonMatrix,
+  { generatedAt = new Date() }: { generatedAt?: Date } = {}
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle("Benefits Comparison Report");
+  doc.setProducer(BRAND_NAME);
+  doc.setCreationDate(generatedAt);
+
+  const fonts: Fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+    italic: await doc.embedFont(StandardFonts.HelveticaOblique),
+  };
+
+  const layout: Layout = { doc, fonts, page: doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]), y: CONTENT_TOP, footnotes: [] };
+  drawCover(layout, matrix, generatedAt);
+
+  newPage(layout);
+  drawSummary(layout, matrix);
+
+  newPage(layout);
+  drawTable(layout, matrix);
+  drawFootnotes(layout);
+
+  drawPageFooters(doc, fonts.regular);
+  return doc.save();
+}
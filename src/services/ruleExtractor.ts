@@ -0,0 +1,151 @@
+// Deterministic label/value extractor for the known QLM and ALKOOT table-of-benefits layouts.
+// Works purely on the local text layer: a field label (or one of its synonyms) anchors a line
+// and its value is either the rest of that line (next table cell, or after a ":" separator) or
+// the line below it.
+import type { BoundingBox, FieldDefinition } from "@/constants/fields";
+import { boundsOf, type PdfDocumentText, type PdfTextLine } from "@/services/pdfText";
+
+export interface RuleMatch {
+  value: string;
+  pageNumber: number;
+  // The source line(s) the value was read from
+  snippet: string;
+  bbox: BoundingBox | null;
+  // How unambiguous the label/value layout was, 0..1 (table cell or "Label:" score highest)
+  labelScore: number;
+}
+
+// Layout-specific trust in a label/value pairing
+const LABEL_SCORES = {
+  cell: 1,
+  separator: 0.95,
+  bare: 0.8,
+  nextLine: 0.75,
+};
+
+// Matches found through a synonym rather than the payer's own label are slightly less certain
+const SYNONYM_FACTOR = 0.9;
+
+const SEPARATOR = /^\s*[:\-–|]\s*/;
+const BULLET = /^\s*(?:[•*\-–]|\d+[.)]|[a-z][.)])\s+/i;
+// Without a separator, only accept text that clearly starts a benefit value
+const VALUE_START = /^(?:QAR|QR|USD|\d|covered|not covered|nil|none|n\/a|yes|no)\b/i;
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// "Vaccination & Immunization" also matches "Vaccination and Immunization", any spacing
+function labelPattern(label: string): string {
+  return label
+    .trim()
+    .split(/\s+/)
+    .map((word) => (word === "&" || word.toLowerCase() === "and" ? "(?:&|and)" : escapeRegExp(word)))
+    .join("\\s*");
+}
+
+// Where another field's label starts inside a value. Single-word labels ("Plan", "Category")
+// only count when followed by a separator, so "Premium Plan" is not cut.
+function labelCutter(label: string): RegExp {
+  const source = labelPattern(label);
+  return /\s/.test(label.trim())
+    ? new RegExp(`\\b${source}\\b`, "i")
+    : new RegExp(`\\b${source}\\s*[:|]`, "i");
+}
+
+function cleanValue(value: string, cutters: RegExp[]): string {
+  let out = value.replace(SEPARATOR, "");
+  // Two-column layouts put the next label on the same line; cut the value there
+  for (const re of cutters) {
+    const m = out.match(re);
+    if (m && m.index !== undefined && m.index > 0) out = out.slice(0, m.index);
+  }
+  return out.replace(/\s+/g, " ").trim();
+}
+
+function valueFromLine(line: PdfTextLine, label: RegExp): { value: string; score: number } | null {
+  const text = line.text.replace(BULLET, "");
+
+  // Table cell: the label occupies its own text item(s), the value follows in later items
+  let consumed = "";
+  for (let i = 0; i < line.items.length; i++) {
+    consumed = `${consumed} ${line.items[i].str}`.trim();
+    if (new RegExp(`^${label.source}\\s*[:\\-–|]?$`, "i").test(consumed.replace(BULLET, ""))) {
+      const rest = line.items.slice(i + 1).map((it) => it.str).join(" ").trim();
+      return rest ? { value: rest, score: LABEL_SCORES.cell } : null;
+    }
+  }
+
+  // Inline "Label: value" / "Label - value"
+  const inline = text.match(new RegExp(`^${label.source}\\s*[:\\-–|]\\s*(.+)$`, "i"));
+  if (inline) return { value: inline[1], score: LABEL_SCORES.separator };
+
+  // "Dental Copayment 20%" run together in a single text item
+  const bare = text.match(new RegExp(`^${label.source}\\s+(.+)$`, "i"));
+  if (bare && VALUE_START.test(bare[1])) return { value: bare[1], score: LABEL_SCORES.bare };
+
+  return null;
+}
+
+function isLabelOnly(line: PdfTextLine, label: RegExp): boolean {
+  return new RegExp(`^${label.source}\\s*[:\\-–|]?$`, "i").test(line.text.replace(BULLET, ""));
+}
+
+function labelsOf(field: FieldDefinition): string[] {
+  return [field.label, ...(field.synonyms ?? [])];
+}
+
+export function extractWithRules(fields: FieldDefinition[], document: PdfDocumentText): Record<string, RuleMatch> {
+  const patterns = new Map(fields.map((f) => [f.key, labelsOf(f).map((l) => new RegExp(labelPattern(l), "i"))]));
+  const results: Record<string, RuleMatch> = {};
+
+  for (const field of fields) {
+    const others = fields.filter((f) => f.key !== field.key);
+    const otherLabels = others.flatMap((f) => patterns.get(f.key)!);
+    const cutters = others.flatMap(labelsOf).map(labelCutter);
+
+    // The payer's own label is tried on every page before any synonym
+    search: for (const [anchor, label] of patterns.get(field.key)!.entries()) {
+      const factor = anchor === 0 ? 1 : SYNONYM_FACTOR;
+
+      for (const page of document.pages) {
+        for (let i = 0; i < page.lines.length; i++) {
+          const line = page.lines[i];
+
+          const sameLine = valueFromLine(line, label);
+          if (sameLine) {
+            const value = cleanValue(sameLine.value, cutters);
+            if (value) {
+              results[field.key] = {
+                value,
+                pageNumber: page.pageNumber,
+                snippet: line.text,
+                bbox: boundsOf(line.items),
+                labelScore: sameLine.score * factor,
+              };
+              break search;
+            }
+          }
+
+          // Label on its own line: take the next line unless it is another label
+          const next = page.lines[i + 1];
+          if (next && isLabelOnly(line, label) && !otherLabels.some((re) => isLabelOnly(next, re))) {
+            const value = cleanValue(next.text, cutters);
+            if (value) {
+              results[field.key] = {
+                value,
+                pageNumber: page.pageNumber,
+                snippet: `${line.text}\n${next.text}`,
+                bbox: boundsOf([...line.items, ...next.items]),
+                labelScore: LABEL_SCORES.nextLine * factor,
+              };
+              break search;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+  FIELD_SCHEMA_VERSION,
+  type ComparisonMatrix,
+  type ExtractedData,
+  type ExtractionResult,
+  type PayerPlan,
+} from "@/constants/fields";
+import { compareDocuments } from "@/services/extraction";
+import { compareDataApi } from "@/services/extractionApi";
+import { buildComparisonMatrix, countDifferences } from "@/services/compare";
+import { isFromCache } from "@/services/extractionCache";
+import { ComparisonFailedError, RateLimitError } from "@/services/errors";
+import { ACME_PAGES, BETA_PAGES, THROTTLED_PAGES, policyPdf } from "./pdfs";
+
+const apiKey = process.env.OPENAI_API_KEY!;
+
+function statuses(matrix: ComparisonMatrix): Record<string, string> {
+  return Object.fromEntries(matrix.rows.map((row) => [row.field, row.cells[1].status]));
+}
+
+function extracted(payerPlan: PayerPlan, data: ExtractedData): ExtractionResult {
+  return {
+    payerPlan,
+    schemaVersion: FIELD_SCHEMA_VERSION,
+    extractedAt: "2026-01-01T00:00:00.000Z",
+    data,
+    evidence: {},
+    confidence: {},
+    corrections: [],
+  };
+}
+
+async function renewalDocuments() {
+  return [
+    { file: await policyPdf("acme.pdf", ACME_PAGES), payerPlan: "QLM" as const },
+    { file: await policyPdf("beta.pdf", BETA_PAGES), payerPlan: "QLM" as const },
+  ];
+}
+
+describe("compareDocuments", () => {
+  it("compares every field against the baseline", async () => {
+    const matrix = await compareDocuments({ documents: await renewalDocuments(), apiKey });
+
+    expect(matrix.documents.map((d) => d.fileName)).toEqual(["acme.pdf", "beta.pdf"]);
+    expect(matrix.baseline).toBe(0);
+    expect(statuses(matrix)).toMatchObject({
+      insured: "conflicting",
+      policy_no: "conflicting",
+      period_of_insurance: "same",
+      plan: "removed",
+      dental_copayment: "conflicting",
+      maternity_copayment: "same",
+      optical_copayment: "removed",
+      inpatient_deductible: "missing",
+    });
+    expect(countDifferences(matrix)).toEqual([0, 5]);
+  });
+
+  it("reports every document that failed", async () => {
+    const documents = await renewalDocuments();
+    documents[1] = { file: await policyPdf("throttled.pdf", THROTTLED_PAGES), payerPlan: "QLM" };
+    const error = await compareDocuments({ documents, apiKey }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(ComparisonFailedError);
+    expect(error.failures).toHaveLength(1);
+    expect(error.failures[0].fileName).toBe("throttled.pdf");
+    expect(error.failures[0].error).toBeInstanceOf(RateLimitError);
+  });
+});
+
+describe("buildComparisonMatrix across payers", () => {
+  it("does not count benefits one payer's schedule does not list", () => {
+    const results = [
+      extracted("QLM", { inpatient_deductible: "QAR 500", dental_copayment: "20%", optical_copayment: "Not covered" }),
+      extracted("ALKOOT", { inpatient_coinsurance: "10%", dental_benefit: "Covered at 20% co-insurance" }),
+    ];
+    const matrix = buildComparisonMatrix(
+      [
+        { fileName: "qlm.pdf", payerPlan: "QLM" },
+        { fileName: "alkoot.pdf", payerPlan: "ALKOOT" },
+      ],
+      results
+    );
+
+    expect(statuses(matrix)).toMatchObject({
+      inpatient_deductible: "not_applicable",
+      inpatient_coinsurance: "not_applicable",
+      dental: "conflicting",
+      optical: "removed",
+      vaccination: "missing",
+    });
+    expect(matrix.rows.find((row) => row.field === "inpatient_deductible")?.cells[1].source).toBeNull();
+    expect(countDifferences(matrix)).toEqual([0, 2]);
+  });
+});
+
+describe("compareDataApi through the extraction service", () => {
+  it("matches the in-process comparison and caches each document", async () => {
+    const documents = await renewalDocuments();
+    const jobs: number[] = [];
+    const matrix = await compareDataApi({ documents, onJob: (index) => jobs.push(index) });
+
+    expect(jobs.sort()).toEqual([0, 1]);
+    expect(statuses(matrix)).toEqual(statuses(await compareDocuments({ documents, apiKey })));
+    expect(matrix.results[0].data.insured).toBe("ACME Corp");
+
+    const since = new Date();
+    const again = await compareDataApi({ documents, onJob: () => expect.unreachable("served from the cache") });
+    expect(again.results.every((result) => isFromCache(result, since))).toBe(true);
+    expect(countDifferences(again)).toEqual(countDifferences(matrix));
+  });
+
+  it("rebuilds the service's typed errors", async () => {
+    const documents = await renewalDocuments();
+    documents[0] = { file: await policyPdf("throttled.pdf", THROTTLED_PAGES), payerPlan: "QLM" };
+    const error = await compareDataApi({ documents, baseline: 1 }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(ComparisonFailedError);
+    expect(error.failures.map((f: { fileName: string }) => f.fileName)).toEqual(["throttled.pdf"]);
+    expect(error.failures[0].error).toBeInstanceOf(RateLimitError);
+    expect(error.failures[0].error.retryAfterSeconds).toBe(7);
+  });
+});
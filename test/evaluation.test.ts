@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { FIELD_SCHEMA_VERSION, type ExtractedData, type ExtractionResult } from "@/constants/fields";
+import {
+  buildEvaluationRun,
+  diffRuns,
+  evaluationToRows,
+  matchRate,
+  scoreDocument,
+  type LabelledDocument,
+} from "@/services/evaluation";
+import { PROMPT_VERSION } from "@/services/prompt";
+
+function extracted(data: ExtractedData): ExtractionResult {
+  return {
+    payerPlan: "QLM",
+    schemaVersion: FIELD_SCHEMA_VERSION,
+    extractedAt: "2026-01-01T00:00:00.000Z",
+    data,
+    evidence: {},
+    confidence: {},
+    corrections: [],
+  };
+}
+
+const acme: LabelledDocument = {
+  fileName: "acme.pdf",
+  payerPlan: "QLM",
+  expected: {
+    insured: "ACME Corp",
+    inpatient_deductible: "QAR 500",
+    dental_copayment: "20%",
+    optical_copayment: null,
+  },
+};
+
+describe("scoreDocument", () => {
+  it("scores only labelled fields, exactly and after normalization", () => {
+    const score = scoreDocument(
+      acme,
+      extracted({ insured: " ACME Corp ", inpatient_deductible: "500 QAR", dental_copayment: "30%", plan: "Gold" }),
+      "gpt-4o"
+    );
+
+    expect(score.fields.map((f) => [f.field, f.exact, f.normalized])).toEqual([
+      ["insured", true, true],
+      ["inpatient_deductible", false, true],
+      ["dental_copayment", false, false],
+      ["optical_copayment", true, true],
+    ]);
+  });
+
+  it("counts every labelled field of a failed document as a miss", () => {
+    const score = scoreDocument(acme, null, "gpt-4o", "Rate limit reached");
+
+    expect(score.error).toBe("Rate limit reached");
+    expect(score.fields.every((f) => !f.exact && !f.normalized)).toBe(true);
+  });
+});
+
+describe("evaluation runs", () => {
+  const startedAt = new Date("2026-01-02T00:00:00.000Z");
+
+  it("summarizes per plan, field and model/prompt version", () => {
+    const run = buildEvaluationRun(
+      [scoreDocument(acme, extracted({ insured: "ACME Corp", inpatient_deductible: "500 QAR" }), "gpt-4o")],
+      { startedAt }
+    );
+
+    expect(run.summary.overall).toEqual({ total: 4, exact: 2, normalized: 3 });
+    expect(run.summary.byPlan.QLM).toEqual(run.summary.overall);
+    expect(run.summary.byModel[`gpt-4o / prompt v${PROMPT_VERSION}`]).toEqual(run.summary.overall);
+    expect(matchRate(run.summary.byField["QLM.inpatient_deductible"], "exact")).toBe(0);
+    expect(evaluationToRows(run)[1]).toEqual(["overall", "all fields", "4", "2", "50.0%", "3", "75.0%"]);
+  });
+
+  it("reports regressions and fixes against the previous run", () => {
+    const previous = buildEvaluationRun(
+      [scoreDocument(acme, extracted({ insured: "ACME Corp", dental_copayment: "25%" }), "gpt-4o")],
+      { startedAt }
+    );
+    const current = buildEvaluationRun(
+      [
+        scoreDocument(acme, extracted({ insured: "ACME Ltd", dental_copayment: "20 %" }), "gpt-4o"),
+        // New in the corpus: not a regression
+        scoreDocument({ ...acme, fileName: "beta.pdf" }, extracted({}), "gpt-4o"),
+      ],
+      { startedAt: new Date("2026-01-03T00:00:00.000Z") }
+    );
+
+    const diff = diffRuns(previous, current);
+    expect(diff.regressions).toEqual([
+      { fileName: "acme.pdf", payerPlan: "QLM", field: "insured", expected: "ACME Corp", before: "ACME Corp", after: "ACME Ltd" },
+    ]);
+    expect(diff.fixes.map((f) => f.field)).toEqual(["dental_copayment"]);
+    expect(diff.fieldRates).toContainEqual({ key: "QLM.insured", before: 1, after: 0 });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import ExcelJS from "exceljs";
+import { FIELD_SCHEMA_VERSION, type ExtractionResult } from "@/constants/fields";
+import { toCsv, toXlsx } from "@/services/export";
+
+const result: ExtractionResult = {
+  payerPlan: "QLM",
+  schemaVersion: FIELD_SCHEMA_VERSION,
+  extractedAt: "2026-01-01T00:00:00.000Z",
+  data: { insured: '=HYPERLINK("http://example.com","ACME")', plan: "@SUM(A1)" },
+  evidence: {},
+  confidence: {},
+  corrections: [],
+};
+
+describe("spreadsheet exports", () => {
+  it("keeps CSV values from being run as formulas", () => {
+    const csv = toCsv([["=1+1", "+1", "-1", "@A1", "QAR 500", "a, b"]]);
+
+    expect(csv).toBe(`\uFEFF'=1+1,'+1,'-1,'@A1,QAR 500,"a, b"`);
+    expect(toCsv([['=HYPERLINK("x")']])).toBe(`\uFEFF"'=HYPERLINK(""x"")"`);
+  });
+
+  it("writes XLSX values as text cells", async () => {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load((await toXlsx({ documents: [{ fileName: "acme.pdf", result }] })) as ArrayBuffer);
+    const sheet = workbook.getWorksheet("acme")!;
+    const insured = sheet.getCell(2, 2);
+
+    expect(insured.type).toBe(ExcelJS.ValueType.String);
+    expect(insured.value).toBe(result.data.insured);
+  });
+});
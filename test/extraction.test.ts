@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { extractDocument } from "@/services/extraction";
+import { RateLimitError } from "@/services/errors";
+import { ACME_PAGES, FULL_SCHEDULE_PAGES, SCANNED_PAGES, THROTTLED_PAGES, policyPdf } from "./pdfs";
+
+const apiKey = process.env.OPENAI_API_KEY!;
+
+describe("extractDocument against recorded OpenAI responses", () => {
+  it("merges rule matches and model output into one result per field", async () => {
+    const file = await policyPdf("acme.pdf", ACME_PAGES);
+    const result = await extractDocument({ file, payerPlan: "QLM", apiKey });
+
+    expect(result.payerPlan).toBe("QLM");
+    expect(result.corrections).toEqual([]);
+    // Every field of the plan is present, even those the model left out
+    expect(Object.keys(result.data).sort()).toEqual(
+      [
+        "al_ahli_eligible_expenses",
+        "child_vaccination",
+        "dental_copayment",
+        "inpatient_deductible",
+        "insured",
+        "maternity_copayment",
+        "optical_copayment",
+        "outpatient_consultation_deductible",
+        "period_of_insurance",
+        "plan",
+        "policy_no",
+        "psychiatric_treatment",
+      ].sort()
+    );
+    expect(result.data.inpatient_deductible).toBeNull();
+    expect(result.evidence.inpatient_deductible).toBeNull();
+    expect(result.confidence.inpatient_deductible).toBeNull();
+    expect(result.data.al_ahli_eligible_expenses).toBeNull();
+  });
+
+  it("keeps the rule value and scores agreement with the model", async () => {
+    const file = await policyPdf("acme.pdf", ACME_PAGES);
+    const result = await extractDocument({ file, payerPlan: "QLM", apiKey });
+
+    expect(result.data.insured).toBe("ACME Corp");
+    expect(result.evidence.insured).toMatchObject({ page: 1, snippet: "Insured: ACME Corp" });
+    expect(result.evidence.insured?.bbox).not.toBeNull();
+    // The model read QLM-9999 where the text says QLM-1001: the text wins, with less confidence
+    expect(result.data.policy_no).toBe("QLM-1001");
+    expect(result.confidence.policy_no).toBeLessThan(result.confidence.insured!);
+  });
+
+  it("tidies model values and pins their quotes to the text layer", async () => {
+    const file = await policyPdf("acme.pdf", ACME_PAGES);
+    const result = await extractDocument({ file, payerPlan: "QLM", apiKey });
+
+    // " 10%\n" from the model, quoted from a line the rules cannot label
+    expect(result.data.maternity_copayment).toBe("10%");
+    expect(result.evidence.maternity_copayment).toMatchObject({
+      page: 1,
+      snippet: "Maternity is covered with 10% co-payment",
+    });
+    expect(result.evidence.maternity_copayment?.bbox).not.toBeNull();
+    expect(result.confidence.maternity_copayment).toBeCloseTo(0.8);
+
+    // A bare value with a line break, and a quote that appears nowhere in the PDF
+    expect(result.data.plan).toBe("Gold Plus");
+    expect(result.data.optical_copayment).toBe("15%");
+    expect(result.evidence.optical_copayment?.bbox).toBeNull();
+    expect(result.confidence.optical_copayment).toBeLessThan(0.6);
+  });
+
+  it("leaves room for an answer on every field of a long schedule", async () => {
+    // The recorded answer is over 1,600 tokens; the mock cuts it off at the request's max_tokens
+    const file = await policyPdf("delta.pdf", FULL_SCHEDULE_PAGES);
+    const result = await extractDocument({ file, payerPlan: "QLM", apiKey });
+
+    expect(Object.values(result.data).every((value) => value !== null)).toBe(true);
+    // The plan line has no label, so only the model can read it
+    expect(result.data.plan).toBe("Platinum Elite Worldwide excluding USA and Canada");
+    expect(result.evidence.optical_copayment).toMatchObject({ page: 2 });
+  });
+
+  it("runs PDFs without a text layer on the plan's assistant", async () => {
+    const file = await policyPdf("scanned.pdf", SCANNED_PAGES);
+    const result = await extractDocument({ file, payerPlan: "QLM", apiKey });
+
+    expect(result.data.insured).toBe("Gamma Trading W.L.L.");
+    expect(result.data.policy_no).toBe("QLM-3003");
+    expect(result.evidence.dental_copayment).toEqual({ page: 2, snippet: "Dental Co-payment 20%", bbox: null });
+    // Nothing to check the citations against
+    expect(result.confidence.insured).toBeCloseTo(0.9 * 0.85, 1);
+    expect(result.data.plan).toBeNull();
+  });
+
+  it("surfaces provider rate limits as typed errors", async () => {
+    const file = await policyPdf("throttled.pdf", THROTTLED_PAGES);
+    const error = await extractDocument({ file, payerPlan: "QLM", apiKey }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterSeconds).toBe(7);
+  });
+});
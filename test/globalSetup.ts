@@ -0,0 +1,66 @@
+// Starts the mock OpenAI API (replaying test/fixtures/openai) and the extraction service pointed
+// at it, so every test runs without network access or an OpenAI account. The test workers
+// inherit OPENAI_BASE and VITE_EXTRACTION_API_URL from here.
+import { spawn, type ChildProcess } from "node:child_process";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { createServer } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadExchanges, startMockOpenAi, type MockOpenAi } from "./mockOpenAi";
+
+const FIXTURES_DIR = join(import.meta.dirname, "fixtures", "openai");
+
+let mock: MockOpenAi;
+let service: ChildProcess;
+// Job records and the resource ledger of the spawned service
+let stateDir: string;
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = createServer().listen(0, "127.0.0.1", () => {
+      const { port } = probe.address() as { port: number };
+      probe.close(() => resolve(port));
+    });
+    probe.on("error", reject);
+  });
+}
+
+function waitForListening(child: ChildProcess): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let output = "";
+    child.stdout!.on("data", (chunk) => {
+      output += chunk;
+      if (output.includes("listening")) resolve();
+    });
+    child.stderr!.on("data", (chunk) => (output += chunk));
+    child.on("exit", (code) => reject(new Error(`Extraction service exited with ${code}:\n${output}`)));
+  });
+}
+
+export async function setup() {
+  const files = (await readdir(FIXTURES_DIR)).filter((name) => name.endsWith(".json")).map((name) => join(FIXTURES_DIR, name));
+  mock = await startMockOpenAi({ exchanges: await loadExchanges(files) });
+  process.env.OPENAI_BASE = mock.url;
+  process.env.OPENAI_API_KEY = "sk-mock";
+
+  const port = await freePort();
+  stateDir = await mkdtemp(join(tmpdir(), "payer-compare-service-"));
+  // node --import tsx keeps the service in this one process, so stopping it stops everything
+  service = spawn(process.execPath, ["--import", "tsx", "api/server.ts"], {
+    env: {
+      ...process.env,
+      PORT: String(port),
+      JOBS_DIR: join(stateDir, "jobs"),
+      OPENAI_LEDGER_FILE: join(stateDir, "openai-resources.json"),
+    },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  await waitForListening(service);
+  process.env.VITE_EXTRACTION_API_URL = `http://127.0.0.1:${port}`;
+}
+
+export async function teardown() {
+  service?.kill();
+  await mock?.close();
+  if (stateDir) await rm(stateDir, { recursive: true, force: true });
+}
@@ -0,0 +1,29 @@
+import { afterAll, describe, expect, it, vi } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { trackResource } from "@/services/providers/openaiResources";
+import { initLedger } from "../api/ledger";
+
+const dir = await mkdtemp(join(tmpdir(), "payer-compare-ledger-"));
+const path = join(dir, "openai-resources.json");
+
+afterAll(() => rm(dir, { recursive: true, force: true }));
+
+async function savedIds(): Promise<string[]> {
+  const entries: { id: string }[] = JSON.parse(await readFile(path, "utf8").catch(() => "[]"));
+  return entries.map((e) => e.id);
+}
+
+describe("resource ledger on the service", () => {
+  it("keeps tracked resources on disk across restarts", async () => {
+    await initLedger(path);
+    trackResource("thread", "thread_1");
+    await vi.waitFor(async () => expect(await savedIds()).toEqual(["thread_1"]));
+
+    // A restart reads the file back instead of starting empty
+    await initLedger(path);
+    trackResource("file", "file_2");
+    await vi.waitFor(async () => expect(await savedIds()).toEqual(["thread_1", "file_2"]));
+  });
+});
@@ -0,0 +1,141 @@
+// Offline stand-in for the OpenAI endpoints the openai provider calls (/files, /assistants,
+// /threads, /threads/:id/messages, /threads/:id/runs, /chat/completions). It replays recorded
+// exchanges from fixture files; in record mode it forwards to the real API instead and appends
+// every exchange to a fixture file, to be trimmed and given `match` strings by hand.
+import { createServer, type IncomingMessage } from "node:http";
+import { readFile, writeFile } from "node:fs/promises";
+import type { AddressInfo } from "node:net";
+
+export interface RecordedExchange {
+  method: string;
+  // Below the API root, e.g. "/threads/:id/runs"; ":id" segments match any id
+  path: string;
+  // Only replayed for requests whose body contains this text, e.g. a line of the PDF in the prompt
+  match?: string;
+  status: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+export interface ReceivedRequest {
+  method: string;
+  path: string;
+  body: string;
+}
+
+export interface MockOpenAi {
+  // Root to use as OPENAI_BASE
+  url: string;
+  requests: ReceivedRequest[];
+  close(): Promise<void>;
+}
+
+const OPENAI_API = "https://api.openai.com/v1";
+// Forwarded as-is when recording
+const FORWARDED_HEADERS = ["authorization", "content-type", "openai-beta"];
+
+export async function loadExchanges(files: string[]): Promise<RecordedExchange[]> {
+  const lists = await Promise.all(files.map(async (file) => JSON.parse(await readFile(file, "utf8"))));
+  return lists.flat();
+}
+
+function pathPattern(path: string): RegExp {
+  const escaped = path.split("/").map((segment) => (segment === ":id" ? "[^/]+" : segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")));
+  return new RegExp(`^${escaped.join("/")}$`);
+}
+
+function findExchange(exchanges: RecordedExchange[], request: ReceivedRequest): RecordedExchange | undefined {
+  return exchanges.find(
+    (exchange) =>
+      exchange.method === request.method &&
+      pathPattern(exchange.path).test(request.path) &&
+      (exchange.match === undefined || request.body.includes(exchange.match))
+  );
+}
+
+// Like the real API, a chat completion longer than the request's max_tokens is cut off there and
+// finishes with "length". Token counts come from the recorded usage.
+function applyMaxTokens(exchange: RecordedExchange, request: ReceivedRequest): unknown {
+  const body = exchange.body as {
+    choices?: { message: { content: string }; finish_reason: string }[];
+    usage?: { completion_tokens: number };
+  };
+  const used = body?.usage?.completion_tokens;
+  if (request.path !== "/chat/completions" || !body.choices || !used) return exchange.body;
+  const limit = JSON.parse(request.body).max_tokens;
+  if (typeof limit !== "number" || limit >= used) return exchange.body;
+  return {
+    ...body,
+    choices: body.choices.map(({ message, ...choice }) => ({
+      ...choice,
+      message: { ...message, content: message.content.slice(0, Math.floor((message.content.length * limit) / used)) },
+      finish_reason: "length",
+    })),
+    usage: { ...body.usage, completion_tokens: limit },
+  };
+}
+
+async function readRequestBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks);
+}
+
+export async function startMockOpenAi({
+  exchanges,
+  port = 0,
+  record,
+}: {
+  exchanges: RecordedExchange[];
+  port?: number;
+  // Forward to the real API (with the caller's key) and append the exchanges to this file
+  record?: string;
+}): Promise<MockOpenAi> {
+  const requests: ReceivedRequest[] = [];
+  const recorded: RecordedExchange[] = [];
+
+  const server = createServer(async (req, res) => {
+    const raw = await readRequestBody(req);
+    // The root may carry a prefix ("/v1"); fixtures are relative to it
+    const path = new URL(req.url ?? "/", "http://localhost").pathname.replace(/^\/v1(?=\/)/, "");
+    const request = { method: req.method ?? "GET", path, body: raw.toString("utf8") };
+    requests.push(request);
+
+    if (record) {
+      const headers: Record<string, string> = {};
+      for (const name of FORWARDED_HEADERS) {
+        const value = req.headers[name];
+        if (typeof value === "string") headers[name] = value;
+      }
+      const upstream = await fetch(`${OPENAI_API}${req.url?.replace(/^\/v1(?=\/)/, "")}`, {
+        method: request.method,
+        headers,
+        body: raw.length > 0 ? raw : undefined,
+      });
+      const text = await upstream.text();
+      recorded.push({ method: request.method, path, status: upstream.status, body: text ? JSON.parse(text) : null });
+      await writeFile(record, JSON.stringify(recorded, null, 2));
+      res.writeHead(upstream.status, { "content-type": "application/json" }).end(text);
+      return;
+    }
+
+    const exchange = findExchange(exchanges, request);
+    if (!exchange) {
+      const message = `mock-openai: no recorded exchange for ${request.method} ${path}`;
+      console.warn(message);
+      res.writeHead(501, { "content-type": "application/json" });
+      res.end(JSON.stringify({ error: { message, type: "mock_error" } }));
+      return;
+    }
+    res.writeHead(exchange.status, { "content-type": "application/json", ...exchange.headers });
+    res.end(JSON.stringify(applyMaxTokens(exchange, request)));
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+  const { port: actualPort } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${actualPort}/v1`,
+    requests,
+    close: () => new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
@@ -0,0 +1,17 @@
+// Runs the mock OpenAI API on its own, e.g. to use the app and the extraction service offline:
+//
+//   npm run mock:openai                      # replays test/fixtures/openai/*.json on port 8788
+//   OPENAI_BASE=http://127.0.0.1:8788/v1 OPENAI_API_KEY=sk-mock npm run api
+//
+// MOCK_OPENAI_RECORD=test/fixtures/openai/new.json forwards to the real API and records instead.
+import { readdir } from "node:fs/promises";
+import { join } from "node:path";
+import { loadExchanges, startMockOpenAi } from "./mockOpenAi";
+
+const FIXTURES_DIR = join(import.meta.dirname, "fixtures", "openai");
+const PORT = Number(process.env.MOCK_OPENAI_PORT ?? 8788);
+const RECORD = process.env.MOCK_OPENAI_RECORD;
+
+const files = (await readdir(FIXTURES_DIR)).filter((name) => name.endsWith(".json")).map((name) => join(FIXTURES_DIR, name));
+const mock = await startMockOpenAi({ exchanges: RECORD ? [] : await loadExchanges(files), port: PORT, record: RECORD });
+console.log(`Mock OpenAI API ${RECORD ? `recording to ${RECORD}` : `replaying ${files.length} fixture file(s)`} at ${mock.url}`);
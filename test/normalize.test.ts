@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { formatCanonical, normalizeValue, valuesEquivalent } from "@/services/normalize";
+
+describe("coverage values", () => {
+  it("keeps the limit or share that follows the verdict", () => {
+    expect(formatCanonical(normalizeValue("coverage", "Covered up to QAR 5,000"))).toBe("Covered, QAR 5000");
+    expect(formatCanonical(normalizeValue("coverage", "Not covered; 20% co-insurance"))).toBe("Not covered, 20%");
+    expect(formatCanonical(normalizeValue("coverage", "Excluded."))).toBe("Not covered");
+  });
+
+  it("compares both the verdict and the detail", () => {
+    expect(valuesEquivalent("coverage", "Covered at 20% co-insurance", "Not covered; 20% co-insurance")).toBe(false);
+    expect(valuesEquivalent("coverage", "Covered up to QAR 5,000", "QAR 5,000")).toBe(false);
+    expect(valuesEquivalent("coverage", "Covered up to QAR 5,000", "Covered")).toBe(false);
+    expect(valuesEquivalent("coverage", "Covered up to QAR 5,000", "covered, up to 5000 QR")).toBe(true);
+    expect(valuesEquivalent("coverage", "Yes", "Included")).toBe(true);
+  });
+
+  it("applies to percentage and currency fields too", () => {
+    expect(valuesEquivalent("percentage", "Covered at 20% co-insurance", "Not covered; 20% co-insurance")).toBe(false);
+    expect(valuesEquivalent("percentage", "20 %", "20%")).toBe(true);
+    expect(valuesEquivalent("currency", "No charge", "Nil")).toBe(true);
+    expect(valuesEquivalent("currency", "N/A", "Not applicable")).toBe(true);
+  });
+});
+
+describe("money values", () => {
+  it("reads currency codes only as whole words", () => {
+    expect(normalizeValue("currency", "Neurology QAR 1,000")).toEqual({ type: "money", amount: 1000, currency: "QAR" });
+    expect(normalizeValue("currency", "Neurology 1,000")).toEqual({ type: "money", amount: 1000, currency: null });
+    expect(normalizeValue("currency", "QAR5,000")).toEqual({ type: "money", amount: 5000, currency: "QAR" });
+  });
+});
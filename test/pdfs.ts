@@ -0,0 +1,115 @@
+// Policy PDFs made on the fly: one array of text lines per page, or empty pages standing in for a
+// scan without a text layer
+import { PDFDocument, StandardFonts } from "pdf-lib";
+
+export async function policyPdf(name: string, pages: string[][]): Promise<File> {
+  const doc = await PDFDocument.create();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  for (const lines of pages) {
+    const page = doc.addPage();
+    lines.forEach((line, i) => page.drawText(line, { x: 50, y: 750 - i * 20, font, size: 11 }));
+  }
+  return new File([await doc.save()], name, { type: "application/pdf" });
+}
+
+export const ACME_PAGES = [
+  [
+    "Insured: ACME Corp",
+    "Policy No: QLM-1001",
+    "Period of Insurance: 01/01/2025 - 31/12/2025",
+    "Dental Copayment: 20%",
+    "Maternity is covered with 10% co-payment",
+  ],
+];
+
+export const BETA_PAGES = [
+  [
+    "Insured: Beta LLC",
+    "Policy No: QLM-2002",
+    "Period of Insurance: 01/01/2025 - 31/12/2025",
+    "Dental Copayment: 30%",
+    "Maternity is covered with 10% co-payment",
+  ],
+];
+
+export const THROTTLED_PAGES = [
+  [
+    "Insured: Throttled Ltd",
+    "Policy No: QLM-4004",
+    "Period of Insurance: 01/01/2025 - 31/12/2025",
+    "Dental Copayment: 20%",
+    "Maternity is covered with 10% co-payment",
+  ],
+];
+
+export const SCANNED_PAGES = [[], []];
+
+
+// A full schedule: every QLM field, each in a paragraph the model quotes in full, so the answer
+// is as long as real ones get
+export const FULL_SCHEDULE_PAGES = [
+  [
+    "Insured: Delta Holdings Qatar W.L.L. (including all eligible employees and their dependants)",
+    "  as listed in the census submitted at inception and in every endorsement issued afterwards,",
+    "  covering spouses, children under 25 and domestic staff registered under the sponsorship",
+    "  of the policyholder in the State of Qatar during the period of insurance",
+    "  and notified to the insurer within 30 days of joining or leaving the policyholder's service",
+    "Policy No: QLM-5005-GRP-2025 issued under the master agreement for group medical insurance",
+    "  between the policyholder and the insurer, to be quoted on every claim, pre-approval request",
+    "  and correspondence, together with the member card number shown on the membership card",
+    "  issued to each insured person",
+    "  and on any claim form submitted for reimbursement of expenses incurred outside the network",
+    "Period of Insurance: 01/01/2025 - 31/12/2025 both days inclusive, Doha local time,",
+    "  renewable annually by agreement of both parties, with additions and deletions during",
+    "  the period charged or refunded pro rata from the date of the endorsement, subject to",
+    "  the terms and conditions of the master policy",
+    "  provided that the premium has been paid in full by the due dates shown in the schedule",
+    "Members are enrolled in Platinum Elite Worldwide excluding USA and Canada, network tier one,",
+    "  with reimbursement of treatment outside the network at the usual, customary and reasonable",
+    "  charges of the country of treatment, annual aggregate limit QAR 2,000,000 per person",
+    "  and area of cover as stated in the table of benefits",
+    "  converted at the exchange rate published by Qatar Central Bank on the date of treatment",
+    "For Eligible Medical Expenses at Al Ahli Hospital: 20% co-insurance on all eligible expenses,",
+    "  applies to inpatient and outpatient services, capped at QAR 500 per visit and QAR 5,000",
+    "  per person per policy year, not applicable to emergency treatment or to maternity",
+    "  benefits, which follow their own co-payment",
+    "  and reviewed at renewal against the claims experience of the group over the past year",
+    "Inpatient Deductible: QAR 500 per admission, waived for emergency admissions through the",
+    "  accident and emergency department and for admissions at government hospitals, and",
+    "  payable directly to the hospital on admission, not refundable by the insurer unless",
+    "  the admission is later declined",
+    "  if the insurer confirms in writing that the admission was not medically necessary",
+  ],
+  [
+    "Deductible per each outpatient consultation: QAR 100 per consultation with a general",
+    "  practitioner or specialist, QAR 50 at network clinics, nil for a follow-up within 7 days",
+    "  with the same doctor for the same condition, and nil for consultations at primary",
+    "  health care centres",
+    "  operated by the Primary Health Care Corporation within the State of Qatar",
+    "Vaccination of children: Covered up to QAR 2,000 per child per policy year for vaccines",
+    "  in the national immunization schedule of the Ministry of Public Health, up to age 6,",
+    "  including the cost of the vaccine and its administration, travel vaccines and flu",
+    "  vaccines for adults excluded",
+    "  and catch-up doses for children who missed a scheduled vaccine before joining the policy",
+    "Psychiatric Treatment: Covered up to QAR 10,000 per policy year for inpatient and outpatient",
+    "  treatment, subject to prior approval and to a referral from a treating physician,",
+    "  including prescribed medication, with psychotherapy limited to 10 sessions per year",
+    "  and treatment of addiction excluded",
+    "  and any condition arising from intentional self-injury during the first policy year",
+    "Dental Copayment: 20% co-payment on all dental treatment, routine scaling and polishing",
+    "  once per policy year included, orthodontics and implants excluded, annual limit QAR 3,000,",
+    "  emergency dental treatment following an accident covered in full under the inpatient",
+    "  benefit when admitted within 48 hours",
+    "  at a network hospital, with the co-payment waived for that emergency treatment only",
+    "Maternity Copayment: 10% co-payment on normal delivery, caesarean section and complications,",
+    "  waiting period of 10 months, antenatal and postnatal care included up to QAR 15,000,",
+    "  newborn care covered for the first 30 days after birth, after which the child must",
+    "  be added to the policy by endorsement",
+    "  within 30 days of birth, failing which cover starts on the date of the endorsement",
+    "Optical Copayment: 15% co-payment on one eye examination and one pair of glasses or contact",
+    "  lenses per policy year, frames limited to QAR 750, laser surgery not covered, and",
+    "  replacement of lost or damaged glasses excluded unless the prescription has changed",
+    "  by at least half a dioptre",
+    "  as confirmed by a licensed optometrist or ophthalmologist in a written prescription",
+  ],
+];
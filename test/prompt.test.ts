@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { parseJsonOutput, readFieldOutput } from "@/services/prompt";
+import { ParseError } from "@/services/errors";
+
+const chat = (content: string) => ({ choices: [{ message: { role: "assistant", content } }] });
+const assistant = (value: string) => ({ data: [{ content: [{ type: "text", text: { value } }] }] });
+
+describe("parseJsonOutput", () => {
+  it("reads a chat completion", () => {
+    expect(parseJsonOutput(chat('{"insured": {"value": "ACME Corp"}}'))).toEqual({ insured: { value: "ACME Corp" } });
+  });
+
+  it("reads the newest message of an assistants thread", () => {
+    expect(parseJsonOutput(assistant('{"plan": "Gold"}'))).toEqual({ plan: "Gold" });
+  });
+
+  it("reports an answer cut off at the token limit", () => {
+    const cut = { choices: [{ message: { role: "assistant", content: '{"insured": {"val' }, finish_reason: "length" }] };
+    expect(() => parseJsonOutput(cut)).toThrow(ParseError);
+  });
+
+  it("finds the JSON object inside prose or a code fence", () => {
+    const content = 'Here is the data:\n```json\n{"plan": "Gold", "nested": {"a": 1}}\n```\nLet me know.';
+    expect(parseJsonOutput(chat(content))).toEqual({ plan: "Gold", nested: { a: 1 } });
+  });
+
+  it("rejects empty responses", () => {
+    expect(() => parseJsonOutput(chat(""))).toThrow(ParseError);
+    expect(() => parseJsonOutput({ data: [] })).toThrow("Empty response from OpenAI.");
+  });
+
+  it("rejects output without valid JSON", () => {
+    expect(() => parseJsonOutput(chat("I could not read the document."))).toThrow(ParseError);
+    expect(() => parseJsonOutput(chat('{"plan": "Gold",}'))).toThrow("Model did not return valid JSON.");
+  });
+});
+
+describe("readFieldOutput", () => {
+  it("reads the cited object form", () => {
+    expect(readFieldOutput({ value: "20%", page: "2", quote: "Dental: 20%", confidence: 0.9 })).toEqual({
+      value: "20%",
+      page: 2,
+      quote: "Dental: 20%",
+      confidence: 0.9,
+    });
+  });
+
+  it("accepts bare values from models that ignore the format", () => {
+    expect(readFieldOutput("Gold")).toEqual({ value: "Gold", page: null, quote: null, confidence: null });
+    expect(readFieldOutput(100)).toEqual({ value: "100", page: null, quote: null, confidence: null });
+    expect(readFieldOutput(null)).toEqual({ value: null, page: null, quote: null, confidence: null });
+  });
+
+  it("drops blank quotes and clamps confidence", () => {
+    const output = readFieldOutput({ value: "Gold", page: null, quote: "  ", confidence: 1.7 });
+    expect(output).toEqual({ value: "Gold", page: null, quote: null, confidence: 1 });
+    expect(readFieldOutput({ value: "Gold", confidence: "high" }).confidence).toBeNull();
+  });
+});
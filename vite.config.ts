@@ -8,6 +8,13 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    // The extraction service (npm run api) holds the provider key
+    proxy: {
+      "/api": {
+        target: process.env.EXTRACTION_API_TARGET ?? "http://127.0.0.1:8787",
+        rewrite: (path) => path.replace(/^\/api/, ""),
+      },
+    },
   },
   plugins: [
     react(),